@@ -0,0 +1,127 @@
+import DataAccess, { DataAccessCacheConfig } from './data/DataAccess.js';
+import EventsHandler from './data/EventsHandler.js';
+import MachineTimeline from './data/MachineTimeline.js';
+import BruceHandler from './data/BruceHandler.js';
+import { MqttConfig, MqttConnector } from './pubsub/mqttHandler.js';
+import { CalibrationEngine } from '../utils/calibration.js';
+import { IoSenseError } from '../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../utils/logger.js';
+import { RetryPolicy, RetryPolicyOptions, createRetryPolicy } from '../utils/retry.js';
+import { HttpTransport, HttpTransportOptions, createTransport } from '../utils/transport.js';
+import { TimeFormat } from '../utils/time.js';
+import { VERSION } from '../utils/constants.js';
+
+export interface IoSenseClientConfig<F extends TimeFormat = TimeFormat> {
+  userId: string;
+  dataUrl: string;
+  dsUrl?: string;
+  onPrem?: boolean;
+  tz?: string;
+  calibration?: CalibrationEngine;
+  cache?: boolean | DataAccessCacheConfig;
+  throwOnError?: boolean;
+  timeFormat?: F;
+  logTime?: boolean;
+  logger?: Logger | LogLevel;
+  transport?: HttpTransport | HttpTransportOptions;
+  retry?: RetryPolicy | RetryPolicyOptions;
+  mqtt?: Omit<MqttConfig, 'logger'>;
+}
+
+/**
+ * Single entry point that owns the shared configuration, transport, retry policy, cache and logger,
+ * and exposes every connector as a sub-client built from them.
+ * @typeParam F - The `timeFormat` config option, which sets the timestamp type of `data` query results
+ */
+export default class IoSenseClient<F extends TimeFormat = 'iso'> {
+  /** Device data, metadata, consumption, clusters and triggers */
+  public readonly data: DataAccess<F>;
+  /** Event publishing and event queries */
+  public readonly events: EventsHandler;
+  /** Machine timeline rows */
+  public readonly timeline: MachineTimeline;
+  /** Bruce insights; organization lookups go through `data` and are made once */
+  public readonly bruce: BruceHandler;
+  public readonly logger: Logger;
+  public readonly transport: HttpTransport;
+  public readonly version: string = VERSION;
+  private mqttConfig: Omit<MqttConfig, 'logger'> | null;
+  private mqttConnector: MqttConnector | null = null;
+
+  /**
+   * Creates the sub-clients. They share one transport (and so its connections), one retry
+   * policy and one logger, and `bruce` reuses `data` and its cache for user lookups.
+   * @param config - Configuration options for the client.
+   * @param config.userId - The user ID to use for API requests.
+   * @param config.dataUrl - The data server host.
+   * @param config.dsUrl - The DS URL for the API. Defaults to `dataUrl`.
+   * @param config.onPrem - Whether the API is on-premises (HTTP) or Live (HTTPS). Defaults to false.
+   * @param config.tz - Timezone to use. Defaults to "UTC".
+   * @param config.calibration - Calibration engine for `data`. Defaults to a new CalibrationEngine.
+   * @param config.cache - Cache settings for `data`, as in DataAccess. Disabled by default.
+   * @param config.throwOnError - Throw typed errors instead of logging them and returning empty results. Defaults to false.
+   * @param config.timeFormat - Timestamp format of `data` query results, as in DataAccess. Defaults to 'iso'.
+   * @param config.logTime - Log API response times of `events` and `timeline`. Defaults to false.
+   * @param config.logger - Logger instance or a level for the console logger. Defaults to 'info'.
+   * @param config.transport - HttpTransport, or options for a new one, shared by every sub-client.
+   * @param config.retry - Retry policy shared by every sub-client. Without one, `events` and `timeline`
+   *   send each request once and the other sub-clients use the default policy.
+   * @param config.mqtt - Broker settings (`broker`, `port`, `username`, `password`). Required to use `mqtt`.
+   */
+  constructor({
+    userId,
+    dataUrl,
+    dsUrl = dataUrl,
+    onPrem = false,
+    tz = 'UTC',
+    calibration,
+    cache = false,
+    throwOnError = false,
+    timeFormat = 'iso' as F,
+    logTime = false,
+    logger = 'info',
+    transport,
+    retry,
+    mqtt
+  }: IoSenseClientConfig<F>) {
+    this.logger = createLogger(logger);
+    this.transport = createTransport(transport);
+    this.mqttConfig = mqtt ?? null;
+
+    const shared = {
+      userId,
+      dataUrl,
+      onPrem,
+      tz,
+      logger: this.logger,
+      transport: this.transport,
+      retry: retry && createRetryPolicy(retry),
+    };
+
+    this.data = new DataAccess({ ...shared, dsUrl, calibration, cache, throwOnError, timeFormat });
+    this.events = new EventsHandler({ ...shared, logTime, throwOnError });
+    this.timeline = new MachineTimeline({ ...shared, logTime, throwOnError });
+    this.bruce = new BruceHandler({ ...shared, dataAccess: this.data });
+  }
+
+  /**
+   * MQTT connector for the configured broker, created on first access. Call `connect()` before publishing.
+   * @throws IoSenseError if the client was created without `mqtt` settings
+   */
+  get mqtt(): MqttConnector {
+    if (!this.mqttConnector) {
+      if (!this.mqttConfig) {
+        throw new IoSenseError('MQTT is not configured. Pass `mqtt` settings to IoSenseClient.');
+      }
+      this.mqttConnector = new MqttConnector({ ...this.mqttConfig, logger: this.logger });
+    }
+    return this.mqttConnector;
+  }
+
+  /**
+   * Closes the MQTT connection, if one was opened
+   */
+  async close(): Promise<void> {
+    await this.mqttConnector?.close();
+  }
+}
@@ -1,14 +1,17 @@
-import axios, { AxiosResponse } from 'axios';
+import { AxiosResponse } from 'axios';
 import {
   FETCH_USER_INSIGHTS_URL,
   GET_SOURCE_INSIGHT_URL,
   FETCH_INSIGHT_RESULTS_URL,
-  Protocol,
-  VERSION,
-  MAX_RETRIES,
-  RETRY_DELAY
+  VERSION
 } from '../../utils/constants.js';
 import DataAccess from './DataAccess.js';
+import { ApiError, IoSenseError, toIoSenseError } from '../../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../../utils/logger.js';
+import { RetryPolicy, RetryPolicyOptions } from '../../utils/retry.js';
+import { abortable, createAbortScope, isAbortError } from '../../utils/abort.js';
+import { toIsoUtc } from '../../utils/time.js';
+import { HttpTransport, HttpTransportOptions, createTransport, formatUrl } from '../../utils/transport.js';
 
 // Type definitions for BruceHandler
 export interface BruceHandlerConfig {
@@ -16,6 +19,10 @@ export interface BruceHandlerConfig {
   dataUrl: string;
   onPrem?: boolean;
   tz?: string;
+  logger?: Logger | LogLevel;
+  transport?: HttpTransport | HttpTransportOptions;
+  retry?: RetryPolicy | RetryPolicyOptions;
+  dataAccess?: DataAccess;
 }
 
 export interface PopulateConfig {
@@ -34,6 +41,9 @@ export interface FetchUserInsightsOptions {
   sort?: Record<string, number>;
   projection?: string | null;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface SourceInsightID {
@@ -79,6 +89,9 @@ export interface ApiResponse<T = any> {
 export interface GetSourceInsightOptions {
   insightId: string;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface VectorConfig {
@@ -136,6 +149,9 @@ export interface FetchInsightResultsOptions {
   };
   pagination?: PaginationConfig;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface InsightResultFilter {
@@ -213,13 +229,21 @@ export default class BruceHandler {
   private dataUrl: string;
   private onPrem: boolean;
   private tz: string;
+  private logger: Logger;
+  private transport: HttpTransport;
+  private dataAccess: DataAccess;
+  private organisationIds = new Map<boolean, Promise<string>>();
   public readonly version: string = VERSION;
 
   constructor({
     userId,
     dataUrl,
     onPrem = false,
-    tz = 'UTC'
+    tz = 'UTC',
+    logger = 'info',
+    transport,
+    retry,
+    dataAccess
   }: BruceHandlerConfig) {
     /**
      * A class to handle Bruce-related operations for user insights and analytics.
@@ -228,27 +252,28 @@ export default class BruceHandler {
      * @param dataUrl - The URL or IP address of the server from which Bruce data is retrieved
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, uses HTTP; otherwise, uses HTTPS
      * @param tz - The timezone to use for time-related operations. Defaults to UTC if not provided
+     * @param logger - Logger instance or a level for the console logger; 'silent' disables logging. Defaults to 'info'
+     * @param transport - HttpTransport shared with other handlers, or options for a new one (axios instance, headers, timeout, agents)
+     * @param retry - Retry policy for every request (maxAttempts, baseDelayMs, maxDelayMs, jitter, retryable statuses/errors, respectRetryAfter, maxRetryAfterMs). Methods accept `retry` overrides per call
+     * @param dataAccess - DataAccess used to look up the user's organization, e.g. one shared through IoSenseClient.
+     *   Defaults to one built from this config
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
     this.tz = tz;
-  }
-
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
-  }
-
-  private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
-  }
-
-  private _sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+    this.logger = createLogger(logger);
+    this.transport = createTransport(transport).withRetry(retry, this.logger);
+    this.dataAccess = dataAccess ?? new DataAccess({
+      userId,
+      dataUrl,
+      dsUrl: dataUrl, // Using same URL for ds operations
+      onPrem,
+      tz,
+      logger: this.logger,
+      transport: this.transport,
+      retry
+    });
   }
 
   async fetchUserInsights(options: FetchUserInsightsOptions = {}): Promise<UserInsight[]> {
@@ -266,6 +291,9 @@ export default class BruceHandler {
      * @param options.sort - Sort configuration object (default: {"createdAt": -1})
      * @param options.projection - Fields to include/exclude in response (null for all fields)
      * @param options.onPrem - Override for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * 
      * @returns Array of user insight objects containing:
      *   - _id: Unique identifier for the insight
@@ -296,50 +324,47 @@ export default class BruceHandler {
       ],
       sort = { "createdAt": -1 },
       projection = null,
-      onPrem
+      onPrem,
+      retry = null
     } = options;
+    const { signal, dispose } = createAbortScope(options);
 
-    const url = this.formatUrl(FETCH_USER_INSIGHTS_URL, onPrem);
+    try {
+      const url = formatUrl(FETCH_USER_INSIGHTS_URL, this.dataUrl, onPrem ?? this.onPrem);
     
-    const payload = {
-      pagination,
-      populate,
-      sort,
-      projection,
-      user: {
-        id: this.userId
-      }
-    };
+      const payload = {
+        pagination,
+        populate,
+        sort,
+        projection,
+        user: {
+          id: this.userId
+        }
+      };
 
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
+      const headers = {
+        'userID': this.userId,
+        'Content-Type': 'application/json'
+      };
 
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
+      let response: AxiosResponse<FetchUserInsightsResponse>;
       try {
-        const response: AxiosResponse<FetchUserInsightsResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data && response.data.data.data) {
-          return response.data.data.data;
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
+        response = await this.transport.put(url, payload, { headers, retry, signal });
       } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch user insights after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
+        throw toIoSenseError(error, url);
       }
-    }
 
-    return [];
+      if (response.data.success && response.data.data && response.data.data.data) {
+        return response.data.data.data;
+      }
+      throw new ApiError(`API returned unsuccessful response: ${JSON.stringify(response.data)}`, {
+        status: response.status,
+        url,
+        body: response.data,
+      });
+    } finally {
+      dispose();
+    }
   }
 
   async getSourceInsight(options: GetSourceInsightOptions): Promise<SourceInsight> {
@@ -358,6 +383,9 @@ export default class BruceHandler {
      * @param options - Configuration options for fetching source insight
      * @param options.insightId - The unique identifier of the insight to retrieve (e.g., "INS_e5fad5d8b198")
      * @param options.onPrem - Override for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * 
      * @returns Promise<SourceInsight> - Detailed source insight object containing:
      *   - _id: Unique database identifier for the insight
@@ -394,123 +422,76 @@ export default class BruceHandler {
      * @throws Error if the insight ID is not found or access is denied
      * @throws Error if the organization information is missing from user data
      */
-    const { insightId, onPrem } = options;
-
-    // First, get user information to obtain organization ID
-    const dataAccess = new DataAccess({
-      userId: this.userId,
-      dataUrl: this.dataUrl,
-      dsUrl: this.dataUrl, // Using same URL for ds operations
-      onPrem: onPrem ?? this.onPrem,
-      tz: this.tz
-    });
+    const { insightId, onPrem, retry = null } = options;
+    const { signal, dispose } = createAbortScope(options);
 
-    let organisationId: string;
     try {
-      const userInfo = await dataAccess.getUserInfo(onPrem);
-      if (!userInfo || typeof userInfo !== 'object' || !('organisation' in userInfo)) {
-        throw new Error('Failed to retrieve user organization information');
-      }
-      
-      const organisation = (userInfo as any).organisation;
-      if (!organisation || !organisation._id) {
-        throw new Error('Organization ID not found in user information');
-      }
-      
-      organisationId = organisation._id;
-    } catch (error: any) {
-      throw new Error(`Failed to get user organization: ${error.message}`);
-    }
+      // First, get the user's organization ID
+      const organisationId = await abortable(this.getOrganisationId(onPrem ?? this.onPrem), signal);
 
-    // Now fetch the source insight using the organization ID
-    const url = this.formatUrl(GET_SOURCE_INSIGHT_URL, onPrem)
-      .replace('{insight_id}', insightId);
+      // Now fetch the source insight using the organization ID
+      const url = formatUrl(GET_SOURCE_INSIGHT_URL, this.dataUrl, onPrem ?? this.onPrem)
+        .replace('{insight_id}', insightId);
     
-    const payload = {
-      user: {
-        organisation: organisationId
-      }
-    };
+      const payload = {
+        user: {
+          organisation: organisationId
+        }
+      };
 
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
+      const headers = {
+        'userID': this.userId,
+        'Content-Type': 'application/json'
+      };
 
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
+      let response: AxiosResponse<GetSourceInsightResponse>;
       try {
-        const response: AxiosResponse<GetSourceInsightResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data) {
-          return response.data.data;
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
+        response = await this.transport.put(url, payload, { headers, retry, signal });
       } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch source insight after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
+        throw toIoSenseError(error, url);
       }
-    }
 
-    throw new Error('Failed to fetch source insight: Maximum retries exceeded');
+      if (response.data.success && response.data.data) {
+        return response.data.data;
+      }
+      throw new ApiError(`API returned unsuccessful response: ${JSON.stringify(response.data)}`, {
+        status: response.status,
+        url,
+        body: response.data,
+      });
+    } finally {
+      dispose();
+    }
   }
 
-  private convertToUtc(time: string | Date, timezone: string = 'UTC'): string {
+  private getOrganisationId(onPrem: boolean): Promise<string> {
     /**
-     * Converts a given time from the specified timezone to UTC ISO string.
-     * 
-     * @param time - The time to convert (ISO string or Date object)
-     * @param timezone - The timezone of the input time (e.g., 'Asia/Kolkata', 'America/New_York')
-     * @returns ISO string in UTC
+     * Looks up the user's organization ID once per server and reuses it for later calls.
+     * Concurrent calls share one request; failed lookups are not remembered.
+     *
+     * @param onPrem - Whether to use the on-premises server
+     * @returns The organization ID
+     * @throws IoSenseError if the user information or its organization cannot be retrieved
      */
-    if (!time) return new Date().toISOString();
-    
-    let dateTime: Date;
-    if (typeof time === 'string') {
-      dateTime = new Date(time);
-    } else {
-      dateTime = time;
-    }
-
-    // If the date is invalid, throw an error
-    if (isNaN(dateTime.getTime())) {
-      throw new Error(`Invalid date format: ${time}`);
-    }
-
-    // If timezone is UTC, return as is
-    if (timezone === 'UTC') {
-      return dateTime.toISOString();
-    }
-
-    // For other timezones, we need to handle the conversion
-    // Note: This assumes the input time is in the specified timezone
-    // and we need to convert it to UTC
-    try {
-      // Create a date string that represents the time in the specified timezone
-      const timeInTimezone = dateTime.toLocaleString('en-US', { timeZone: timezone });
-      const timeInUtc = dateTime.toLocaleString('en-US', { timeZone: 'UTC' });
-      
-      // Calculate the offset between the timezone and UTC
-      const timezoneDate = new Date(timeInTimezone);
-      const utcDate = new Date(timeInUtc);
-      const offset = utcDate.getTime() - timezoneDate.getTime();
-      
-      // Apply the offset to get the correct UTC time
-      const correctedUtcTime = new Date(dateTime.getTime() + offset);
-      return correctedUtcTime.toISOString();
-    } catch (error) {
-      // Fallback to treating the input as already in UTC
-      console.warn(`Timezone conversion failed for ${timezone}, treating time as UTC:`, error);
-      return dateTime.toISOString();
+    let lookup = this.organisationIds.get(onPrem);
+    if (!lookup) {
+      lookup = this.dataAccess.getUserInfo(onPrem).then((userInfo) => {
+        const organisation = (userInfo as any)?.organisation;
+        if (!organisation) {
+          throw new IoSenseError('Failed to retrieve user organization information');
+        }
+        if (!organisation._id) {
+          throw new IoSenseError('Organization ID not found in user information');
+        }
+        return organisation._id as string;
+      }).catch((error: any) => {
+        this.organisationIds.delete(onPrem);
+        if (isAbortError(error)) throw error;
+        throw new IoSenseError(`Failed to get user organization: ${error.message}`, error);
+      });
+      this.organisationIds.set(onPrem, lookup);
     }
+    return lookup;
   }
 
   async fetchInsightResults(options: FetchInsightResultsOptions): Promise<{
@@ -556,6 +537,9 @@ export default class BruceHandler {
      * @param options.filter.tags - Array of tags to filter results by (e.g., ["Profile", "OEE", "Normal"])
      * @param options.pagination - Pagination settings (defaults to {page: 1, count: 50})
      * @param options.onPrem - Override for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * 
      * @returns Promise<Object> - Object containing:
      *   - results: Array of InsightResult objects, each containing:
@@ -589,100 +573,73 @@ export default class BruceHandler {
      * 
      * @throws Error if the user information cannot be retrieved or organization ID is missing
      * @throws Error if the insight ID is not found or access is denied
-     * @throws Error if the API request fails after maximum retries
+     * @throws Error if the API request fails after the retry policy gives up
      * @throws Error if the response format is invalid or unsuccessful
      * @throws Error if the provided date format is invalid
      */
-    const { insightId, filter, pagination = { page: 1, count: 50 }, onPrem } = options;
-
-    // First, get user information to obtain organization ID
-    const dataAccess = new DataAccess({
-      userId: this.userId,
-      dataUrl: this.dataUrl,
-      dsUrl: this.dataUrl,
-      onPrem: onPrem ?? this.onPrem,
-      tz: this.tz
-    });
+    const { insightId, filter, pagination = { page: 1, count: 50 }, onPrem, retry = null } = options;
+    const { signal, dispose } = createAbortScope(options);
 
-    let organisationId: string;
     try {
-      const userInfo = await dataAccess.getUserInfo(onPrem);
-      if (!userInfo || typeof userInfo !== 'object' || !('organisation' in userInfo)) {
-        throw new Error('Failed to retrieve user organization information');
-      }
-      
-      const organisation = (userInfo as any).organisation;
-      if (!organisation || !organisation._id) {
-        throw new Error('Organization ID not found in user information');
+      // First, get the user's organization ID
+      const organisationId = await abortable(this.getOrganisationId(onPrem ?? this.onPrem), signal);
+
+      // Convert filter dates from user's timezone to UTC and include tags
+      let convertedFilter = filter;
+      if (filter && (filter.startDate || filter.endDate || filter.tags)) {
+        convertedFilter = {
+          ...filter,
+          startDate: filter.startDate ? toIsoUtc(filter.startDate, this.tz) : undefined,
+          endDate: filter.endDate ? toIsoUtc(filter.endDate, this.tz) : undefined,
+          insightProperty: filter.insightProperty || [],
+          tags: filter.tags || undefined
+        };
       }
-      
-      organisationId = organisation._id;
-    } catch (error: any) {
-      throw new Error(`Failed to get user organization: ${error.message}`);
-    }
 
-    // Convert filter dates from user's timezone to UTC and include tags
-    let convertedFilter = filter;
-    if (filter && (filter.startDate || filter.endDate || filter.tags)) {
-      convertedFilter = {
-        ...filter,
-        startDate: filter.startDate ? this.convertToUtc(filter.startDate, this.tz) : undefined,
-        endDate: filter.endDate ? this.convertToUtc(filter.endDate, this.tz) : undefined,
-        insightProperty: filter.insightProperty || [],
-        tags: filter.tags || undefined
+      // Prepare the request
+      const url = formatUrl(FETCH_INSIGHT_RESULTS_URL, this.dataUrl, onPrem ?? this.onPrem)
+        .replace('{insight_id}', insightId);
+    
+      const payload = {
+        filter: convertedFilter || {
+          startDate: undefined,
+          endDate: undefined,
+          insightProperty: [],
+          tags: undefined
+        },
+        user: {
+          id: this.userId,
+          organisation: organisationId
+        },
+        pagination
       };
-    }
 
-    // Prepare the request
-    const url = this.formatUrl(FETCH_INSIGHT_RESULTS_URL, onPrem)
-      .replace('{insight_id}', insightId);
-    
-    const payload = {
-      filter: convertedFilter || {
-        startDate: undefined,
-        endDate: undefined,
-        insightProperty: [],
-        tags: undefined
-      },
-      user: {
-        id: this.userId,
-        organisation: organisationId
-      },
-      pagination
-    };
-
-    const headers = {
-      'userID': this.userId,
-      'Content-Type': 'application/json'
-    };
-
-    let retries = 0;
-    while (retries < MAX_RETRIES) {
+      const headers = {
+        'userID': this.userId,
+        'Content-Type': 'application/json'
+      };
+
+      let response: AxiosResponse<FetchInsightResultsResponse>;
       try {
-        const response: AxiosResponse<FetchInsightResultsResponse> = await axios.put(url, payload, { headers });
-        
-        if (response.data.success && response.data.data) {
-          return {
-            results: response.data.data.data,
-            totalCount: response.data.data.totalCount,
-            pagination: response.data.data.pagination
-          };
-        } else {
-          throw new Error(`API returned unsuccessful response: ${JSON.stringify(response.data)}`);
-        }
+        response = await this.transport.put(url, payload, { headers, retry, signal });
       } catch (error: any) {
-        retries++;
-        if (retries >= MAX_RETRIES) {
-          const errorMsg = this.errorMessage(error.response, url);
-          throw new Error(`Failed to fetch insight results after ${MAX_RETRIES} retries. ${errorMsg}`);
-        }
-        
-        // Exponential backoff
-        const delay = RETRY_DELAY[0] * Math.pow(2, retries - 1) * 1000;
-        await this._sleep(delay);
+        throw toIoSenseError(error, url);
       }
-    }
 
-    throw new Error('Failed to fetch insight results: Maximum retries exceeded');
+      if (response.data.success && response.data.data) {
+        return {
+          results: response.data.data.data,
+          totalCount: response.data.data.totalCount,
+          pagination: response.data.data.pagination
+        };
+      }
+      throw new ApiError(`API returned unsuccessful response: ${JSON.stringify(response.data)}`, {
+        status: response.status,
+        url,
+        body: response.data,
+      });
+    } finally {
+      dispose();
+    }
   }
 }
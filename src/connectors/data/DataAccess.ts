@@ -6,19 +6,55 @@ import {
   GET_DP_URL,
   GET_FIRST_DP,
   INFLUXDB_URL,
+  GET_CURSOR_BATCHES_URL,
   GET_LOAD_ENTITIES,
-  MAX_RETRIES,
-  RETRY_DELAY,
-  Protocol
+  CONSUMPTION_URL,
+  CLUSTER_AGGREGATION,
+  TRIGGER_URL,
+  GET_FILTERED_OPERATION_DATA,
+  CURSOR_LIMIT,
+  MAX_CONCURRENT_BATCHES,
+  MAX_CONCURRENT_DEVICES,
+  CACHE_TTL
 } from '../../utils/constants.js';
+import { mapWithConcurrency } from '../../utils/concurrency.js';
+import { CalibrationBounds, CalibrationEngine, CalibrationReportEntry, ResolvedCalibration } from '../../utils/calibration.js';
+import { getUnitConverter, resolveUnit } from '../../utils/units.js';
+import { CacheStore, MemoryCacheStore } from '../../utils/cache.js';
+import {
+  ApiError,
+  DeviceNotFoundError,
+  IoSenseError,
+  ValidationError,
+  toIoSenseError
+} from '../../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../../utils/logger.js';
+import { HttpTransport, HttpTransportOptions, createTransport, errorMessage, formatUrl } from '../../utils/transport.js';
+import { RetryPolicy, RetryPolicyOptions } from '../../utils/retry.js';
+import { abortable, createAbortScope, isAbortError } from '../../utils/abort.js';
+import { TimeFormat, TimeInput, formatTime, toUnixMs, zonedOffset, zonedParts, zonedToUnix } from '../../utils/time.js';
+import { DEFAULT_SUMMARY_STATS, RunningStats, SummaryStat, median, percentileOf } from '../../utils/stats.js';
 
 // Type definitions for the DataAccess class
-export interface DataAccessConfig {
+export interface DataAccessConfig<F extends TimeFormat = TimeFormat> {
   userId: string;
   dataUrl: string;
   dsUrl: string;
   onPrem?: boolean;
   tz?: string;
+  calibration?: CalibrationEngine;
+  cache?: boolean | DataAccessCacheConfig;
+  throwOnError?: boolean;
+  logger?: Logger | LogLevel;
+  transport?: HttpTransport | HttpTransportOptions;
+  retry?: RetryPolicy | RetryPolicyOptions;
+  timeFormat?: F;
+}
+
+export interface DataAccessCacheConfig {
+  store?: CacheStore;
+  ttlMs?: number;
+  maxEntries?: number;
 }
 
 export interface ApiResponse<T = any> {
@@ -101,12 +137,42 @@ export interface UserInfo {
 }
 
 // Type definitions for sensor data
-export interface SensorDataPoint {
-  time: string | number;
+/** Long-format row: one reading of one sensor */
+export interface SensorDataPoint<T = string | number> {
+  time: T;
   sensor: string;
   value: string | number | null;
+  /** Unit of `value`, present when `units` is requested */
+  unit?: string | null;
 }
 
+/** Pivoted (wide) row: one column per sensor, keyed by sensor ID, or by name with `alias` */
+export type PivotedRow<T = string | number> = {
+  time: T;
+  /** Unit of each sensor column, present when `units` is requested */
+  units?: Record<string, string | null>;
+} & Record<string, string | number | null>;
+
+/**
+ * Timestamp type a query returns: Unix milliseconds with `unix: true`, otherwise the per-call
+ * `timeFormat` or the instance's (`F`): a Date for 'date' and a string for the rest
+ */
+export type ResultTime<O, F extends TimeFormat = 'iso'> =
+  O extends { unix: true } ? number
+  : O extends { unix?: boolean | null }
+    ? O extends { unix?: false | null } ? FormattedTime<O, F> : number | FormattedTime<O, F>
+    : FormattedTime<O, F>;
+
+type FormattedTime<O, F extends TimeFormat> = O extends { timeFormat: infer P extends TimeFormat } ? TimeOfFormat<P> : TimeOfFormat<F>;
+
+type TimeOfFormat<F> = 'date' extends F ? (F extends 'date' ? Date : string | Date) : string;
+
+/** Row type a query returns for the given options; `D` is the method's default `format` */
+export type QueryRow<O, F extends TimeFormat = 'iso', D extends TableFormat = 'long'> =
+  RowOfFormat<O extends { format: infer R extends TableFormat } ? R : D, ResultTime<O, F>>;
+
+type RowOfFormat<R, T> = R extends 'wide' ? PivotedRow<T> : SensorDataPoint<T>;
+
 export interface RawSensorData {
   time?: string | number;
   sensor?: string;
@@ -126,7 +192,13 @@ export interface GetFirstDpOptions {
   n?: number;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  format?: TableFormat;
   onPrem?: boolean | null;
+  units?: UnitsOption | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface GetDpOptions {
@@ -137,9 +209,29 @@ export interface GetDpOptions {
   endTime?: string | number | Date | null;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  format?: TableFormat;
   onPrem?: boolean | null;
+  fill?: FillStrategy | null;
+  tolerance?: number | null;
+  units?: UnitsOption | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
+export type ResampleInterval = `${number}${'m' | 'h' | 'd'}`;
+
+export type ResampleAggregate = 'mean' | 'min' | 'max' | 'sum' | 'first' | 'last' | 'count';
+
+export type FillStrategy = 'ffill' | 'bfill' | 'linear' | 'nearest';
+
+/** 'long' returns one row per reading (`time`, `sensor`, `value`); 'wide' one row per timestamp with a column per sensor */
+export type TableFormat = 'long' | 'wide';
+
+/** 'selected' converts to each sensor's `unitSelected`; a map names target units per sensor ID or name */
+export type UnitsOption = 'selected' | Record<string, string>;
+
 export interface CleanedTableOptions {
   data: any[];
   alias?: boolean;
@@ -148,8 +240,14 @@ export interface CleanedTableOptions {
   sensorList?: string[];
   onPrem?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat | null;
   metadata?: DeviceMetadata | null;
   pivotTable?: boolean;
+  interval?: ResampleInterval | null;
+  aggregate?: ResampleAggregate;
+  fill?: FillStrategy | null;
+  tolerance?: number | null;
+  units?: UnitsOption | null;
 }
 
 export interface DataQueryOptions {
@@ -160,7 +258,164 @@ export interface DataQueryOptions {
   cal?: boolean;
   alias?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  format?: TableFormat;
+  onPrem?: boolean | null;
+  parallel?: boolean;
+  concurrency?: number;
+  interval?: ResampleInterval | null;
+  aggregate?: ResampleAggregate;
+  fill?: FillStrategy | null;
+  tolerance?: number | null;
+  units?: UnitsOption | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export type StreamDataQueryOptions = Omit<
+  DataQueryOptions,
+  'parallel' | 'concurrency' | 'interval' | 'aggregate' | 'fill' | 'tolerance'
+>;
+
+export interface DeviceQuery {
+  deviceId: string;
+  sensorList?: string[] | null;
+}
+
+export interface DataQueryManyOptions {
+  devices: DeviceQuery[];
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  cal?: boolean;
+  alias?: boolean;
+  unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  format?: TableFormat;
+  onPrem?: boolean | null;
+  concurrency?: number;
+  parallel?: boolean;
+  batchConcurrency?: number;
+  combine?: boolean;
+  interval?: ResampleInterval | null;
+  aggregate?: ResampleAggregate;
+  fill?: FillStrategy | null;
+  tolerance?: number | null;
+  units?: UnitsOption | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface SummarizeOptions {
+  deviceId: string;
+  sensorList?: string[] | null;
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  stats?: SummaryStat[];
+  cal?: boolean;
+  alias?: boolean;
+  unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  units?: UnitsOption | null;
+  onPrem?: boolean | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** One sensor's statistics over a range; only the requested stats are present */
+export interface SensorSummary<T = string | number> {
+  sensor: string;
+  unit?: string | null;
+  count?: number;
+  min?: number | null;
+  max?: number | null;
+  mean?: number | null;
+  std?: number | null;
+  first?: number | null;
+  firstTime?: T | null;
+  last?: number | null;
+  lastTime?: T | null;
+  [percentile: `p${number}`]: number | null;
+}
+
+export interface DataQualityOptions {
+  devices: DeviceQuery[];
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  expectedInterval?: number | Record<string, number> | null;
+  gapFactor?: number;
+  staleAfter?: number | null;
+  unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  onPrem?: boolean | null;
+  concurrency?: number;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface DataGap<T = string | number> {
+  start: T;
+  end: T;
+  durationMs: number;
+}
+
+export interface SensorQualityReport<T = string | number> {
+  sensor: string;
+  name: string | null;
+  readings: number;
+  firstSeen: T | null;
+  lastSeen: T | null;
+  silentForMs: number | null;
+  stale: boolean;
+  expectedIntervalMs: number | null;
+  gaps: DataGap<T>[];
+  bounds: CalibrationBounds;
+  minValue: number | null;
+  maxValue: number | null;
+  outOfRange: number;
+}
+
+export interface DeviceQualityReport<T = string | number> {
+  deviceId: string;
+  sensors: SensorQualityReport<T>[];
+  error?: string;
+}
+
+export type OperationFilterOperator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+export interface OperationDataFilter {
+  sensor?: string;
+  operator: OperationFilterOperator;
+  value: number;
+}
+
+export interface FilteredOperationDataOptions {
+  devices: string[];
+  sensors: string[];
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  filters?: OperationDataFilter[];
+  unix?: boolean;
   onPrem?: boolean | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface OperationDataRow {
+  devID: string;
+  sensor: string;
+  time: string | number;
+  value: number | null;
+}
+
+export interface OperationDataResponse {
+  data?: OperationDataRow[];
+  errors?: string[];
+  success?: boolean;
 }
 
 export interface InfluxDbOptions {
@@ -170,9 +425,20 @@ export interface InfluxDbOptions {
   alias?: boolean;
   cal?: boolean;
   unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  format?: TableFormat;
   sensorList?: string[];
   metadata?: DeviceMetadata | null;
   onPrem?: boolean | null;
+  parallel?: boolean;
+  concurrency?: number;
+  interval?: ResampleInterval | null;
+  aggregate?: ResampleAggregate;
+  fill?: FillStrategy | null;
+  tolerance?: number | null;
+  units?: UnitsOption | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
 }
 
 export interface CursorData {
@@ -183,6 +449,9 @@ export interface CursorData {
 export interface GetLoadEntitiesOptions {
   onPrem?: boolean | null;
   clusters?: string[] | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface LoadEntity {
@@ -199,13 +468,125 @@ export interface LoadEntitiesResponse {
   error?: boolean;
 }
 
+export type ConsumptionInterval = 'hour' | 'day' | 'week' | 'month';
+
+export interface ConsumptionOptions {
+  deviceId: string;
+  sensorList?: string[] | null;
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  interval?: ConsumptionInterval | null;
+  cal?: boolean;
+  alias?: boolean;
+  unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  onPrem?: boolean | null;
+  concurrency?: number;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface StartEndDp {
+  start?: RawSensorData | null;
+  end?: RawSensorData | null;
+}
+
+export interface ConsumptionRow<T = string | number> {
+  time: T;
+  sensor: string;
+  startTime: T | null;
+  startValue: number | null;
+  endTime: T | null;
+  endValue: number | null;
+  delta: number | null;
+}
+
+export type ClusterOperator = 'sum' | 'mean' | 'min' | 'max' | 'count';
+
+export interface ClusterAggregationOptions {
+  clusters: string[];
+  startTime?: string | number | Date | null;
+  endTime?: string | number | Date | null;
+  operator?: ClusterOperator;
+  periodicity?: 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year' | null;
+  unix?: boolean;
+  timeFormat?: TimeFormat | null;
+  onPrem?: boolean | null;
+  concurrency?: number;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Request body of the cluster widget endpoint */
+export interface ClusterAggregationRequest {
+  userID: string;
+  clusterID: string;
+  startTime: number;
+  endTime: number;
+  operator: ClusterOperator;
+  timezone: string;
+  periodicity?: NonNullable<ClusterAggregationOptions['periodicity']>;
+}
+
+/** Response of the cluster widget endpoint: the aggregated value keyed by period start in the request timezone */
+export interface ClusterAggregationResponse {
+  data?: Record<string, number | string | null> | null;
+  errors?: string[];
+}
+
+export interface ClusterDataPoint<T = string | number> {
+  time: T;
+  value: number | null;
+}
+
+export interface ClusterAggregation<T = string | number> {
+  id: string;
+  name: string;
+  data: ClusterDataPoint<T>[];
+}
+
+export interface CalibrationReportOptions {
+  deviceId: string;
+  sensorList?: string[] | null;
+  onPrem?: boolean | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface TriggerOptions {
+  title: string;
+  payload?: Record<string, unknown> | null;
+  onPrem?: boolean | null;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
 
-export default class DataAccess {
+export interface TriggerResponse {
+  success?: boolean;
+  message?: string;
+  data?: unknown;
+  [key: string]: unknown;
+}
+
+/**
+ * @typeParam F - The `timeFormat` config option, which sets the timestamp type of query results
+ */
+export default class DataAccess<F extends TimeFormat = 'iso'> {
   private userId: string;
   private dataUrl: string;
   private dsUrl: string;
   private onPrem: boolean;
   private tz: string;
+  private timeFormat: TimeFormat;
+  private calibration: CalibrationEngine;
+  private cache: { store: CacheStore; ttlMs: number } | null;
+  private pendingFetches = new Map<string, Promise<unknown>>();
+  private throwOnError: boolean;
+  private logger: Logger;
+  private transport: HttpTransport;
 
   /**
    * Class constructor for DataAccess.
@@ -215,85 +596,192 @@ export default class DataAccess {
    * @param options.dsUrl - The DS URL for the API.
    * @param options.onPrem - Whether the API is on-premises or Live. Defaults to false.
    * @param options.tz - Timezone to use. Defaults to "UTC".
+   * @param options.calibration - Calibration engine used when `cal` is set. Register custom
+   *   per-device-type calibrations on it. Defaults to a new CalibrationEngine.
+   * @param options.cache - Caches user info, the device list and device metadata. `true` uses an in-memory
+   *   store; pass `{ store, ttlMs, maxEntries }` to tune it or share a store between workers. Disabled by default.
+   * @param options.throwOnError - Throw typed errors (ApiError, DeviceNotFoundError, ...) instead of logging them
+   *   and returning an empty result. Defaults to false.
+   * @param options.logger - Logger instance (pino, winston, ...) or a level for the console logger.
+   *   Pass 'silent' to disable logging. Defaults to 'info'.
+   * @param options.transport - HttpTransport shared with other handlers, or options for a new one
+   *   (`axios` instance or `request` function, `headers`, `timeout`, agents, `keepAlive`).
+   * @param options.retry - Retry policy for every request (`maxAttempts`, `baseDelayMs`, `maxDelayMs`, `jitter`,
+   *   `retryableStatuses`, `retryableErrors`, `respectRetryAfter`, `maxRetryAfterMs`). Methods taking an options
+   *   object accept `retry` overrides per call. Defaults to MAX_RETRIES attempts with exponential backoff.
+   * @param options.timeFormat - How `getFirstDp`, `getDp`, `dataQuery`, `streamDataQuery` and `dataQueryMany` return
+   *   timestamps when `unix` is false: 'iso' (UTC, as sent by the server), 'local' (ISO 8601 with the offset of `tz`),
+   *   'date' (Date objects) or a pattern such as 'YYYY-MM-DD HH:mm:ss' rendered in `tz`. Defaults to 'iso'.
    */
   constructor({
     userId,
     dataUrl,
     dsUrl,
     onPrem = false,
-    tz = "UTC"
-  }: DataAccessConfig) {
+    tz = "UTC",
+    calibration = new CalibrationEngine(),
+    cache = false,
+    throwOnError = false,
+    logger = 'info',
+    transport,
+    retry,
+    timeFormat = 'iso' as F
+  }: DataAccessConfig<F>) {
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.dsUrl = dsUrl;
     this.onPrem = onPrem;
     this.tz = tz;
+    this.timeFormat = timeFormat;
+    this.calibration = calibration;
+    this.throwOnError = throwOnError;
+    this.logger = createLogger(logger);
+    this.transport = createTransport(transport).withRetry(retry, this.logger);
+
+    if (cache) {
+      const { store, ttlMs = CACHE_TTL, maxEntries } = cache === true ? {} : cache;
+      this.cache = { store: store ?? new MemoryCacheStore({ ttlMs, maxEntries }), ttlMs };
+    } else {
+      this.cache = null;
+    }
   }
 
   /**
-   * Helper function to format error messages
-   * @param response - The axios response object
-   * @param url - The URL that was requested
-   * @returns Formatted error message
+   * Builds the cache key for a lookup, scoped to this user, data URL and on-prem flag
+   * @param kind - What is cached ('userinfo', 'devices' or 'metadata')
+   * @param onPrem - Whether the on-premise endpoints were used
+   * @param deviceId - Device the entry belongs to, for per-device lookups
+   * @returns The cache key
    */
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) return `URL: ${url}`;
-    return `Status: ${response?.status || 'unknown'}, URL: ${url}`;
+  private cacheKey(kind: string, onPrem: boolean, deviceId?: string): string {
+    const key = `${this.cachePrefix()}${onPrem ? 'onprem' : 'cloud'}:${kind}`;
+    return deviceId ? `${key}:${deviceId}` : key;
+  }
+
+  private cachePrefix(): string {
+    return `iosense:${this.userId}:${this.dataUrl}:`;
   }
 
   /**
-   * Convert a given time to Unix timestamp in milliseconds.
-   * @param time - The time to be converted. It can be a string in ISO 8601 format, a Unix timestamp in milliseconds, or a Date object. If null or undefined, the current time is used.
-   * @param timezone - The timezone to use (e.g., 'America/New_York', 'UTC'). This is used when time is not provided or doesn't have timezone info.
-   * @returns The Unix timestamp in milliseconds.
-   * @throws Error if the provided Unix timestamp is not in milliseconds or if there are mismatched offset times.
+   * Returns a cached value or fetches and stores it. Concurrent misses for the same key share one request,
+   * and failed fetches are not cached. Cache store errors are logged and fall through to the API.
+   * @param key - Cache key
+   * @param fetcher - Loads the value when it is not cached
+   * @returns The cached or freshly fetched value
    */
-  private timeToUnix(time: string | number | Date | null = null, timezone: string = "UTC"): number {
-    // If time is not provided, use the current time in the specified timezone
-    if (time === null || time === undefined) {
-      // Create a date in the current timezone
-      const now = new Date();
-      return now.getTime();
+  private async cached<T>(key: string, fetcher: () => Promise<T>): Promise<T> {
+    const cache = this.cache;
+    if (!cache) return fetcher();
+
+    try {
+      const hit = await cache.store.get<T>(key);
+      if (hit !== undefined) return hit;
+    } catch (error: unknown) {
+      const { message } = toIoSenseError(error);
+      this.logger.error(`[CACHE] Failed to read entry: ${message}`, { key });
     }
 
-    // If time is already in Unix timestamp format (number)
-    if (typeof time === "number") {
-      // Validate that it's in milliseconds (>10 digits)
-      if (time <= 0 || String(time).length <= 10) {
-        throw new Error(
-          "Unix timestamp must be a positive integer in milliseconds, not seconds."
-        );
-      }
-      return time;
+    let pending = this.pendingFetches.get(key) as Promise<T> | undefined;
+    if (!pending) {
+      pending = fetcher()
+        .then(async (value) => {
+          try {
+            await cache.store.set(key, value, cache.ttlMs);
+          } catch (error: unknown) {
+            const { message } = toIoSenseError(error);
+            this.logger.error(`[CACHE] Failed to write entry: ${message}`, { key });
+          }
+          return value;
+        })
+        .finally(() => this.pendingFetches.delete(key));
+      this.pendingFetches.set(key, pending);
     }
+    return pending;
+  }
 
-    // If time is in string format, convert it to a Date object
-    let dateObj: Date;
-    if (typeof time === "string") {
-      // Parse the string into a Date object
-      dateObj = new Date(time);
+  /**
+   * Drops every cached entry for this user and data URL.
+   * @returns Promise that resolves once the store is cleared
+   */
+  async invalidateCache(): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.store.clear(this.cachePrefix());
+  }
 
-      // Check if the date is valid
-      if (isNaN(dateObj.getTime())) {
-        throw new Error(`Invalid date string: ${time}`);
-      }
-    } else if (time instanceof Date) {
-      dateObj = time;
-    } else {
-      throw new Error("Time must be a string, number, Date object, or null");
-    }
+  /**
+   * Drops the cached device list so the next call fetches it again.
+   * @param onPremOverride - Which endpoints' entry to drop. Defaults to the instance setting
+   * @returns Promise that resolves once the entry is removed
+   */
+  async invalidateDeviceDetails(onPremOverride: boolean | null = null): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.store.delete(this.cacheKey('devices', onPremOverride ?? this.onPrem));
+  }
 
-    // Return the Unix timestamp in milliseconds
-    return dateObj.getTime();
+  /**
+   * Drops the cached metadata of one device so the next call fetches it again.
+   * @param deviceId - The device whose metadata changed
+   * @param onPremOverride - Which endpoints' entry to drop. Defaults to the instance setting
+   * @returns Promise that resolves once the entry is removed
+   */
+  async invalidateDeviceMetadata(deviceId: string, onPremOverride: boolean | null = null): Promise<void> {
+    if (!this.cache) return;
+    await this.cache.store.delete(this.cacheKey('metadata', onPremOverride ?? this.onPrem, deviceId));
   }
 
   /**
-   * Sleep for a specified number of milliseconds
-   * @param ms - Number of milliseconds to sleep
-   * @returns Promise that resolves after the specified time
+   * Split a time range into calendar buckets in the instance timezone
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @param interval - Bucket size. If null, the whole range is returned as a single bucket
+   * @returns Buckets with the nominal period start and the clamped query range
    */
-  private _sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private getBuckets(
+    startTime: number,
+    endTime: number,
+    interval: ConsumptionInterval | null
+  ): Array<{ label: number; start: number; end: number }> {
+    if (!interval) {
+      return [{ label: startTime, start: startTime, end: endTime }];
+    }
+
+    // Snap the range start to the beginning of its period
+    const [year, month, day, hour] = zonedParts(startTime, this.tz);
+    let periodStart: number;
+    if (interval === 'hour') {
+      periodStart = zonedToUnix([year, month, day, hour], this.tz);
+    } else if (interval === 'day') {
+      periodStart = zonedToUnix([year, month, day], this.tz);
+    } else if (interval === 'week') {
+      // Weeks start on Monday
+      const weekday = new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+      periodStart = zonedToUnix([year, month, day - ((weekday + 6) % 7)], this.tz);
+    } else {
+      periodStart = zonedToUnix([year, month, 1], this.tz);
+    }
+
+    const buckets: Array<{ label: number; start: number; end: number }> = [];
+    while (periodStart < endTime) {
+      const [y, mo, d] = zonedParts(periodStart, this.tz);
+      let periodEnd: number;
+      if (interval === 'hour') {
+        periodEnd = periodStart + 3600 * 1000;
+      } else if (interval === 'day') {
+        periodEnd = zonedToUnix([y, mo, d + 1], this.tz);
+      } else if (interval === 'week') {
+        periodEnd = zonedToUnix([y, mo, d + 7], this.tz);
+      } else {
+        periodEnd = zonedToUnix([y, mo + 1, 1], this.tz);
+      }
+
+      buckets.push({
+        label: periodStart,
+        start: Math.max(periodStart, startTime),
+        end: Math.min(periodEnd, endTime),
+      });
+      periodStart = periodEnd;
+    }
+    return buckets;
   }
 
   /**
@@ -334,8 +822,14 @@ export default class DataAccess {
       sensorList,
       onPrem = false,
       unix = false,
+      timeFormat = null,
       metadata = null,
       pivotTable = true,
+      interval = null,
+      aggregate = 'mean',
+      fill = null,
+      tolerance = null,
+      units = null,
     } = options;
 
     // Create a deep copy of the input data to avoid modifying the original
@@ -358,66 +852,88 @@ export default class DataAccess {
 
     // 3. Apply calibration if requested
     if (cal && metadata) {
+      // Resolve each sensor's calibration once (linear, polynomial, lookup or custom)
+      const calibrations = new Map<string, ResolvedCalibration>();
       cleanedData = cleanedData.map((row) => {
-        // Apply calibration formula using metadata parameters
-        if (row.sensor && metadata.params && metadata.params[row.sensor]) {
-          const sensorParams = metadata.params[row.sensor];
-          
-          // Extract calibration parameters
-          let m = 1; // slope (default to 1)
-          let c = 0; // intercept (default to 0)
-          let min: number | null = null;
-          let max: number | null = null;
-
-          // Find the calibration parameters
-          for (const param of sensorParams) {
-            if (param.paramName === 'm') {
-              m = parseFloat(param.paramValue) || 1;
-            } else if (param.paramName === 'c') {
-              c = parseFloat(param.paramValue) || 0;
-            } else if (param.paramName === 'min') {
-              min = parseFloat(param.paramValue);
-            } else if (param.paramName === 'max') {
-              max = parseFloat(param.paramValue);
-            }
+        if (!row.sensor) return row;
+
+        let calibration = calibrations.get(row.sensor);
+        if (!calibration) {
+          calibration = this.calibration.resolve(metadata.params?.[row.sensor], {
+            deviceId: metadata.devID,
+            devTypeID: metadata.devTypeID,
+            sensor: row.sensor,
+          });
+          calibrations.set(row.sensor, calibration);
+        }
+        if (calibration.kind === 'none' && calibration.bounds.min === null && calibration.bounds.max === null) {
+          return row;
+        }
+
+        if (row.value !== null && row.value !== undefined) {
+          const rawValue = parseFloat(row.value);
+          if (!isNaN(rawValue)) {
+            // Apply min/max constraints after the calibration model
+            row.value = this.calibration.clamp(calibration.apply(rawValue), calibration.bounds);
           }
+        }
+        return row;
+      });
+    }
 
-          // Apply calibration formula: calibrated_value = m * raw_value + c
-          if (row.value !== null && row.value !== undefined) {
-            const rawValue = parseFloat(row.value);
-            if (!isNaN(rawValue)) {
-              let calibratedValue = m * rawValue + c;
-              
-              // Apply min/max constraints if specified
-              if (min !== null && !isNaN(min)) {
-                calibratedValue = Math.max(calibratedValue, min);
-              }
-              if (max !== null && !isNaN(max)) {
-                calibratedValue = Math.min(calibratedValue, max);
-              }
-              
-              row.value = calibratedValue;
+    // 4. Convert units if requested; every row then carries the unit it is in
+    if (units && metadata) {
+      const converters = new Map<string, { unit: string | null; convert: ((value: number) => number) | null }>();
+      const sensorNames: Record<string, string> = {};
+      metadata.sensors?.forEach(sensor => {
+        sensorNames[sensor.sensorId] = sensor.sensorName;
+      });
+
+      cleanedData = cleanedData.map((row) => {
+        if (!row.sensor) return row;
+
+        let converter = converters.get(row.sensor);
+        if (!converter) {
+          const sourceUnit = metadata.unit?.[row.sensor]?.[0] ?? null;
+          const targetUnit = units === 'selected'
+            ? metadata.unitSelected?.[row.sensor]
+            : units[row.sensor] ?? units[sensorNames[row.sensor]];
+
+          converter = { unit: sourceUnit, convert: null };
+          if (sourceUnit && targetUnit) {
+            const convert = getUnitConverter(sourceUnit, targetUnit);
+            if (convert) {
+              converter = { unit: resolveUnit(targetUnit), convert };
+            } else {
+              this.logger.warn('[UNITS] Cannot convert sensor, keeping raw values', { sensor: row.sensor, from: sourceUnit, to: targetUnit });
             }
           }
+          converters.set(row.sensor, converter);
         }
+
+        if (converter.convert && row.value !== null && row.value !== undefined) {
+          const value = parseFloat(row.value);
+          if (!isNaN(value)) row.value = converter.convert(value);
+        }
+        row.unit = converter.unit;
         return row;
       });
     }
 
-    // 4. Process timestamps if unix format is requested
+    // 5. Process timestamps if unix format is requested
     if (unix) {
       cleanedData = cleanedData.map((row) => {
         // Convert timestamp to Unix format (assuming row.timestamp or row.time exists)
         if (row.timestamp) {
-          row.timestamp = this.timeToUnix(row.timestamp);
+          row.timestamp = toUnixMs(row.timestamp);
         } else if (row.time) {
-          row.time = this.timeToUnix(row.time);
+          row.time = toUnixMs(row.time);
         }
         return row;
       });
     }
 
-    // 5. Apply aliases if requested
+    // 6. Apply aliases if requested
     if (alias && metadata) {
       // Create alias mapping from sensor metadata (sensorId -> sensorName)
       const aliasMap: Record<string, string> = {};
@@ -448,18 +964,23 @@ export default class DataAccess {
       });
     }
 
-    // 6. Create pivot table if requested
-    if (pivotTable) {
+    // 7. Resample into fixed intervals if requested
+    if (interval) {
+      cleanedData = this.resampleRows(cleanedData, interval, aggregate, unix);
+    }
+
+    // 8. Create pivot table if requested (gap filling also works on the pivoted layout)
+    if (pivotTable || fill) {
       // This is a simplified version of pivoting
       // In a real implementation, you'd need a more complex logic depending on your data structure
-      const pivotedData: any[] = [];
+      let pivotedData: any[] = [];
       const timestamps = [...new Set(cleanedData.map((row) => row.timestamp || row.time))];
 
       timestamps.forEach((timestamp) => {
         const rowsAtTimestamp = cleanedData.filter(
           (row) => (row.timestamp || row.time) === timestamp
         );
-        const pivotedRow: any = { timestamp };
+        const pivotedRow: any = { time: timestamp };
 
         rowsAtTimestamp.forEach((row) => {
           // Assuming each row has a 'sensor' and 'value' field
@@ -472,10 +993,253 @@ export default class DataAccess {
         pivotedData.push(pivotedRow);
       });
 
-      return pivotedData;
+      // Every pivoted row lists the unit of each sensor column
+      if (units) {
+        const unitMap: Record<string, string | null> = {};
+        cleanedData.forEach((row) => {
+          if (row.sensor) unitMap[row.sensor] = row.unit ?? null;
+        });
+        pivotedData = pivotedData.map((row) => ({ ...row, units: { ...unitMap } }));
+      }
+
+      // 9. Fill gaps between sensors that reported at different times
+      if (fill) {
+        pivotedData = this.fillRows(pivotedData, fill, tolerance);
+      }
+
+      if (!pivotTable) {
+        // Melt back to long format: one row per timestamp and sensor
+        cleanedData = pivotedData.flatMap(({ time, units: rowUnits, ...values }) =>
+          Object.entries(values).map(([sensor, value]) => (
+            units ? { time, sensor, value, unit: rowUnits?.[sensor] ?? null } : { time, sensor, value }
+          ))
+        );
+      } else {
+        cleanedData = pivotedData;
+      }
+    }
+
+    // 10. Render timestamps in the requested format
+    return unix ? cleanedData : this.formatTimes(cleanedData, timeFormat ?? this.timeFormat);
+  }
+
+  /**
+   * Renders the `time` or `timestamp` of each row in the given output format
+   * @param rows - Cleaned rows carrying server timestamps (UTC ISO strings)
+   * @param format - Output format; 'iso' returns the rows unchanged
+   * @returns The rows with rendered timestamps
+   */
+  private formatTimes(rows: Record<string, unknown>[], format: TimeFormat): Record<string, unknown>[] {
+    if (format === 'iso') return rows;
+    return rows.map((row) => {
+      const key = row.timestamp !== undefined ? 'timestamp' : 'time';
+      if (row[key] === undefined || row[key] === null || row[key] === '') return row;
+      return { ...row, [key]: formatTime(toUnixMs(row[key] as TimeInput), format, this.tz) };
+    });
+  }
+
+  /**
+   * Fills missing sensor values in pivoted rows so every row carries every sensor.
+   * Rows are returned in ascending time order; cells that cannot be filled are set to null.
+   * @param rows - Pivoted rows keyed by `time`
+   * @param strategy - 'ffill' carries the last value forward, 'bfill' carries the next value back,
+   *   'linear' interpolates numeric values by time, and 'nearest' merges rows whose timestamps
+   *   lie within the tolerance of the first row in the group
+   * @param tolerance - Maximum distance in milliseconds a value may be carried or interpolated across.
+   *   Unlimited by default, except for 'nearest' where it defaults to 1000
+   * @returns Dense pivoted rows
+   */
+  private fillRows(rows: Record<string, unknown>[], strategy: FillStrategy, tolerance: number | null): Record<string, unknown>[] {
+    const maxGap = tolerance ?? (strategy === 'nearest' ? 1000 : Infinity);
+    const sensors = [...new Set(rows.flatMap(row => Object.keys(row).filter(key => key !== 'time' && key !== 'units')))];
+    const units = rows.reduce<Record<string, unknown> | null>((acc, row) => (row.units ? { ...acc, ...(row.units as Record<string, unknown>) } : acc), null);
+    const hasValue = (row: Record<string, unknown>, sensor: string): boolean => row[sensor] !== undefined && row[sensor] !== null;
+
+    let sorted = rows
+      .map(row => ({
+        ms: typeof row.time === 'number' ? row.time : toUnixMs(row.time as TimeInput),
+        row: { ...row },
+      }))
+      .sort((a, b) => a.ms - b.ms);
+
+    if (strategy === 'nearest') {
+      // Group rows that fall within the tolerance of the group's first timestamp
+      const groups: Array<{ ms: number; row: Record<string, unknown>; distance: Record<string, number> }> = [];
+      for (const { ms, row } of sorted) {
+        const group = groups[groups.length - 1];
+        if (!group || ms - group.ms > maxGap) {
+          groups.push({ ms, row, distance: Object.fromEntries(sensors.map(sensor => [sensor, 0])) });
+          continue;
+        }
+        for (const sensor of sensors) {
+          if (!hasValue(row, sensor)) continue;
+          const distance = ms - group.ms;
+          if (!hasValue(group.row, sensor) || distance < group.distance[sensor]) {
+            group.row[sensor] = row[sensor];
+            group.distance[sensor] = distance;
+          }
+        }
+      }
+      sorted = groups.map(({ ms, row }) => ({ ms, row }));
+    }
+
+    for (const sensor of sensors) {
+      if (strategy === 'ffill' || strategy === 'linear') {
+        let last: { ms: number; value: unknown } | null = null;
+        const pending: typeof sorted = [];
+        for (const entry of sorted) {
+          if (!hasValue(entry.row, sensor)) {
+            if (strategy === 'ffill') {
+              entry.row[sensor] = last && entry.ms - last.ms <= maxGap ? last.value : null;
+            } else {
+              pending.push(entry);
+            }
+            continue;
+          }
+
+          const value = entry.row[sensor];
+          if (strategy === 'linear') {
+            const start = last ? parseFloat(String(last.value)) : NaN;
+            const end = parseFloat(String(value));
+            for (const gap of pending) {
+              const canInterpolate = last && !isNaN(start) && !isNaN(end) && entry.ms - last.ms <= maxGap;
+              gap.row[sensor] = canInterpolate
+                ? start + ((end - start) * (gap.ms - last!.ms)) / (entry.ms - last!.ms)
+                : null;
+            }
+            pending.length = 0;
+          }
+          last = { ms: entry.ms, value };
+        }
+        for (const gap of pending) {
+          gap.row[sensor] = null;
+        }
+      } else if (strategy === 'bfill') {
+        let next: { ms: number; value: unknown } | null = null;
+        for (let i = sorted.length - 1; i >= 0; i--) {
+          const entry = sorted[i];
+          if (hasValue(entry.row, sensor)) {
+            next = { ms: entry.ms, value: entry.row[sensor] };
+          } else {
+            entry.row[sensor] = next && next.ms - entry.ms <= maxGap ? next.value : null;
+          }
+        }
+      } else {
+        sorted.forEach(entry => {
+          if (!hasValue(entry.row, sensor)) entry.row[sensor] = null;
+        });
+      }
+    }
+
+    return sorted.map(({ row }) => ({
+      time: row.time,
+      ...Object.fromEntries(sensors.map(sensor => [sensor, row[sensor]])),
+      ...(units ? { units } : {}),
+    }));
+  }
+
+  /**
+   * Aggregates long-format rows into fixed intervals per sensor.
+   * Buckets are aligned to wall-clock time in the instance timezone, so '1d' starts at local midnight.
+   * @param rows - Cleaned long-format rows with time, sensor and value fields
+   * @param interval - Bucket size such as '15m', '1h' or '1d'
+   * @param aggregate - Aggregation applied to the values in each bucket
+   * @param unix - Whether to return bucket timestamps in Unix format
+   * @returns One row per bucket and sensor, in time order
+   * @throws Error if the interval is invalid
+   */
+  private resampleRows(
+    rows: Array<SensorDataPoint & { timestamp?: TimeInput }>,
+    interval: ResampleInterval,
+    aggregate: ResampleAggregate,
+    unix: boolean
+  ): SensorDataPoint[] {
+    const match = /^(\d+)(m|h|d)$/.exec(interval);
+    if (!match || parseInt(match[1], 10) <= 0) {
+      throw new ValidationError(`Invalid resample interval: ${interval}`);
+    }
+    const unitMs: Record<string, number> = { m: 60 * 1000, h: 3600 * 1000, d: 86400 * 1000 };
+    const size = parseInt(match[1], 10) * unitMs[match[2]];
+
+    // Timezone offsets only change on 15-minute boundaries, so cache them per quarter hour
+    const offsets = new Map<number, number>();
+    const offsetAt = (ms: number): number => {
+      const key = Math.floor(ms / (900 * 1000));
+      let offset = offsets.get(key);
+      if (offset === undefined) {
+        offset = zonedOffset(ms, this.tz);
+        offsets.set(key, offset);
+      }
+      return offset;
+    };
+    const bucketStarts = new Map<number, number>();
+
+    const groups = new Map<string, {
+      bucket: number;
+      sensor: string;
+      unit?: string | null;
+      points: Array<{ time: number; value: number | null }>;
+    }>();
+    for (const row of rows) {
+      const rowTime = row.timestamp || row.time;
+      const ms = typeof rowTime === 'number' ? rowTime : toUnixMs(rowTime);
+
+      // Floor in wall-clock time, then map the bucket start back to UTC
+      const bucketLocal = Math.floor((ms + offsetAt(ms)) / size) * size;
+      let bucket = bucketStarts.get(bucketLocal);
+      if (bucket === undefined) {
+        const wall = new Date(bucketLocal);
+        bucket = zonedToUnix([
+          wall.getUTCFullYear(),
+          wall.getUTCMonth() + 1,
+          wall.getUTCDate(),
+          wall.getUTCHours(),
+          wall.getUTCMinutes(),
+        ], this.tz);
+        bucketStarts.set(bucketLocal, bucket);
+      }
+
+      const key = `${bucket}|${row.sensor}`;
+      let group = groups.get(key);
+      if (!group) {
+        group = { bucket, sensor: row.sensor, unit: row.unit, points: [] };
+        groups.set(key, group);
+      }
+      const value = parseFloat(String(row.value));
+      group.points.push({ time: ms, value: isNaN(value) ? null : value });
+    }
+
+    const resampled: Array<SensorDataPoint & { bucket: number }> = [];
+    for (const { bucket, sensor, unit, points } of groups.values()) {
+      const values = points
+        .sort((a, b) => a.time - b.time)
+        .map(point => point.value)
+        .filter((value): value is number => value !== null);
+
+      let value: number | null = null;
+      if (aggregate === 'count') {
+        value = values.length;
+      } else if (values.length > 0) {
+        if (aggregate === 'mean') value = values.reduce((sum, v) => sum + v, 0) / values.length;
+        else if (aggregate === 'sum') value = values.reduce((sum, v) => sum + v, 0);
+        else if (aggregate === 'min') value = Math.min(...values);
+        else if (aggregate === 'max') value = Math.max(...values);
+        else if (aggregate === 'first') value = values[0];
+        else if (aggregate === 'last') value = values[values.length - 1];
+      }
+
+      resampled.push({
+        time: unix ? bucket : new Date(bucket).toISOString(),
+        sensor,
+        value,
+        ...(unit !== undefined ? { unit: aggregate === 'count' ? null : unit } : {}),
+        bucket,
+      });
     }
 
-    return cleanedData;
+    return resampled
+      .sort((a, b) => a.bucket - b.bucket)
+      .map(({ bucket: _bucket, ...row }) => row);
   }
 
   /**
@@ -564,46 +1328,35 @@ export default class DataAccess {
    * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
    */
   async getUserInfo(onPremOverride: boolean | null = null): Promise<UserInfo | {}> {
-    // Based on On Prem We will use either http or https protocol
     const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
-    // Construct the URL for the API request
-    const url = GET_USER_INFO_URL.replace("{protocol}", protocol).replace(
-      "{data_url}",
-      this.dataUrl
-    );
+    const url = formatUrl(GET_USER_INFO_URL, this.dataUrl, onPrem);
 
     try {
-      const response: AxiosResponse<ApiResponse<UserInfo>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
-      });
+      // Served from the cache when caching is enabled
+      return await this.cached(this.cacheKey('userinfo', onPrem), async () => {
+        const response: AxiosResponse<ApiResponse<UserInfo>> = await this.transport.get(url, {
+          headers: {
+            userID: this.userId,
+          },
+        });
 
-      // Check if the response contains the expected data
-      if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
-      }
+        // Check if the response contains the expected data
+        if (!response.data || !response.data.data) {
+          throw new ApiError('Missing "data" in response', { status: response.status, url, body: response.data });
+        }
 
-      // Return the user info from the response
-      return response.data.data;
+        // Return the user info from the response
+        return response.data.data;
+      });
     } catch (error: any) {
+      if (this.throwOnError) throw toIoSenseError(error, url);
       // Handle errors that occur during the API request
       const status = error.response?.status;
       const statusText = error.response?.statusText;
       const server = error.response?.headers?.server || "Unknown Server";
       const body = error.response?.data || error.message;
 
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}: 
-        [STATUS CODE] ${status}
-        [URL] ${url}
-        [SERVER INFO] ${server}
-        [RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
+      this.logger.error(`[EXCEPTION] ${error.name}: ${error.message}`, { url, status, server, body });
       return {};
     }
   }
@@ -651,46 +1404,35 @@ export default class DataAccess {
    * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
    */
   async getDeviceDetails(onPremOverride: boolean | null = null): Promise<DeviceDetail[] | {}> {
-    // Based on On Prem We will use either http or https protocol
     const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
-    // Construct the URL for the API request
-    const url = GET_DEVICE_DETAILS_URL.replace("{protocol}", protocol).replace(
-      "{data_url}",
-      this.dataUrl
-    );
+    const url = formatUrl(GET_DEVICE_DETAILS_URL, this.dataUrl, onPrem);
 
     try {
-      const response: AxiosResponse<ApiResponse<DeviceDetail[]>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
-      });
+      // Served from the cache when caching is enabled
+      return await this.cached(this.cacheKey('devices', onPrem), async () => {
+        const response: AxiosResponse<ApiResponse<DeviceDetail[]>> = await this.transport.get(url, {
+          headers: {
+            userID: this.userId,
+          },
+        });
 
-      // Check if the response contains the expected data
-      if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
-      }
+        // Check if the response contains the expected data
+        if (!response.data || !response.data.data) {
+          throw new ApiError('Missing "data" in response', { status: response.status, url, body: response.data });
+        }
 
-      // Return the device details from the response
-      return response.data.data;
+        // Return the device details from the response
+        return response.data.data;
+      });
     } catch (error: any) {
+      if (this.throwOnError) throw toIoSenseError(error, url);
       // Handle errors that occur during the API request
       const status = error.response?.status;
       const statusText = error.response?.statusText;
       const server = error.response?.headers?.server || "Unknown Server";
       const body = error.response?.data || error.message;
 
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}:
-        [STATUS CODE] ${status}
-        [URL] ${url}
-        [SERVER INFO] ${server}
-        [RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
+      this.logger.error(`[EXCEPTION] ${error.name}: ${error.message}`, { url, status, server, body });
       return {};
     }
   }
@@ -741,65 +1483,113 @@ export default class DataAccess {
    * @throws Error if an unexpected error occurs during metadata retrieval, such as parsing JSON data or other unexpected issues.
    */
   async getDeviceMetaData(deviceID: string, onPremOverride: boolean | null = null): Promise<DeviceMetadata | {}> {
-    // Based on On Prem We will use either http or https protocol
     const onPrem = onPremOverride !== null ? onPremOverride : this.onPrem;
-    const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
-    
-    // Construct the URL for the API request
-    const url = GET_DEVICE_METADATA_URL.replace("{protocol}", protocol)
-      .replace("{data_url}", this.dataUrl)
-      .replace("{device_id}", deviceID);
+    const url = formatUrl(GET_DEVICE_METADATA_URL, this.dataUrl, onPrem).replace("{device_id}", deviceID);
 
     try {
-      const response: AxiosResponse<ApiResponse<DeviceMetadata>> = await axios.get(url, {
-        headers: {
-          userID: this.userId,
-        },
-      });
+      // Served from the cache when caching is enabled
+      return await this.cached(this.cacheKey('metadata', onPrem, deviceID), async () => {
+        const response: AxiosResponse<ApiResponse<DeviceMetadata>> = await this.transport.get(url, {
+          headers: {
+            userID: this.userId,
+          },
+        });
 
-      // Check if the response contains the expected data
-      if (!response.data || !response.data.data) {
-        throw new Error('Missing "data" in response');
-      }
+        // Check if the response contains the expected data
+        if (!response.data || !response.data.data) {
+          throw new ApiError('Missing "data" in response', { status: response.status, url, body: response.data });
+        }
 
-      // Return the device metadata from the response
-      return response.data.data;
+        // Return the device metadata from the response
+        return response.data.data;
+      });
     } catch (error: any) {
+      if (this.throwOnError) throw toIoSenseError(error, url);
       // Handle errors that occur during the API request
       const status = error.response?.status;
       const statusText = error.response?.statusText;
       const server = error.response?.headers?.server || "Unknown Server";
       const body = error.response?.data || error.message;
 
-      // Log the error details
-      console.error(
-        `[EXCEPTION] ${error.name}:
-[STATUS CODE] ${status}
-[URL] ${url}
-[SERVER INFO] ${server}
-[RESPONSE] ${JSON.stringify(body)}
-      `.trim()
-      );
+      this.logger.error(`[EXCEPTION] ${error.name}: ${error.message}`, { url, status, server, body });
       return {};
     }
   }
 
   /**
-   * Retrieves the first datapoint(s) for specified sensors on a device starting from a given time.
+   * Reports which calibration model `cal: true` applies to each sensor of a device.
    * @param options - Configuration options
-   * @param options.deviceId - The ID of the device to fetch data from
-   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
-   * @param options.cal - Whether to apply calibration to sensor values
-   * @param options.startTime - The time from which to start fetching data (Unix timestamp in milliseconds)
-   * @param options.n - Number of datapoints to fetch (must be ≥ 1)
-   * @param options.alias - Whether to use sensor aliases instead of IDs
-   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.deviceId - The ID of the device
+   * @param options.sensorList - List of sensor IDs. If null, reports every sensor in the device metadata
    * @param options.onPrem - Whether to use on-premise API endpoints
-   * @returns Array of datapoints with time and sensor values. Each datapoint has the following structure:
+   * @returns Array of report entries, or an empty array if the metadata cannot be fetched.
    * ```typescript
    * {
-   *   time: number;      // unix timestamp (e.g., 1718102400)
-   *   sensor: string;    // Sensor ID (e.g., "D5", "D13") or sensor name if alias=true
+   *   sensor: string;                // Sensor ID
+   *   kind: CalibrationKind;         // 'none' | 'linear' | 'polynomial' | 'lookup' | 'custom'
+   *   details: Record<string, any>;  // Model parameters, e.g. { m, c } or { coefficients }
+   *   min: number | null;            // Lower clamp bound
+   *   max: number | null;            // Upper clamp bound
+   * }
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const report = await dataAccess.getCalibrationReport({ deviceId: 'DEVICE_001' });
+   * // [{ sensor: 'D5', kind: 'polynomial', details: { coefficients: [0.1, 2, 0.003] }, min: 0, max: null }]
+   * ```
+   */
+  async getCalibrationReport(options: CalibrationReportOptions): Promise<CalibrationReportEntry[]> {
+    const { deviceId, sensorList = null, onPrem = null } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const { sensorList: finalSensorList, metadata } = await this.resolveSensors(deviceId, sensorList, useOnPrem, true, signal);
+
+      return finalSensorList.map((sensor) => {
+        const { kind, details, bounds } = this.calibration.resolve(metadata?.params?.[sensor], {
+          deviceId,
+          devTypeID: metadata?.devTypeID,
+          sensor,
+        });
+        return { sensor, kind, details, min: bounds.min, max: bounds.max };
+      });
+    } catch (err: unknown) {
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      const { name, message } = toIoSenseError(err);
+      this.logger.error(`[EXCEPTION] ${name}: ${message}`);
+      return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Retrieves the first datapoint(s) for specified sensors on a device starting from a given time.
+   * @param options - Configuration options
+   * @param options.deviceId - The ID of the device to fetch data from
+   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
+   * @param options.cal - Whether to apply calibration to sensor values
+   * @param options.startTime - The time from which to start fetching data (Unix timestamp in milliseconds)
+   * @param options.n - Number of datapoints to fetch (must be ≥ 1)
+   * @param options.alias - Whether to use sensor aliases instead of IDs
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Timestamp format when `unix` is false: 'iso', 'local', 'date' or a pattern such as
+   *   'YYYY-MM-DD HH:mm:ss' rendered in the configured `tz`. Defaults to the `timeFormat` config option
+   * @param options.format - 'long' (default) returns one `{ time, sensor, value }` row per reading;
+   *   'wide' returns one row per timestamp with a column per sensor
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.units - Optional unit conversion: 'selected' converts each sensor to its `unitSelected`
+   *   unit, or a map such as `{ D5: 'kWh' }` names target units by sensor ID or name. Rows gain a `unit` field
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of datapoints with time and sensor values. Each datapoint has the following structure:
+   * ```typescript
+   * {
+   *   time: number;      // unix timestamp (e.g., 1718102400)
+   *   sensor: string;    // Sensor ID (e.g., "D5", "D13") or sensor name if alias=true
    *   value: number | null;  // Sensor reading value or null if no data available
    * }
    * ```
@@ -844,7 +1634,7 @@ export default class DataAccess {
    * @throws Error if no sensor data is available for the device
    * @throws Error if the API request fails or returns an error response
    */
-  async getFirstDp(options: GetFirstDpOptions): Promise<any[]> {
+  async getFirstDp<O extends GetFirstDpOptions>(options: O): Promise<QueryRow<O, F>[]> {
     const {
       deviceId,
       sensorList = null,
@@ -853,56 +1643,45 @@ export default class DataAccess {
       n = 1,
       alias = false,
       unix = false,
+      timeFormat = null,
+      format = 'long',
       onPrem = null,
+      units = null,
+      retry = null,
     } = options;
+    const { signal, dispose } = createAbortScope(options);
 
     try {
-      if (n < 1) throw new Error("Parameter 'n' must be ≥ 1");
+      if (n < 1) throw new ValidationError("Parameter 'n' must be ≥ 1");
 
       const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = GET_FIRST_DP.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
 
       // Verify device
-      const devices = await this.getDeviceDetails(useOnPrem);
+      const devices = await abortable(this.getDeviceDetails(useOnPrem), signal);
       if (Array.isArray(devices)) {
         const deviceIds = devices.map(d => d.devID);
         if (!deviceIds.includes(deviceId)) {
-          throw new Error(`Device ${deviceId} not added in account`);
+          throw new DeviceNotFoundError(deviceId);
         }
       } else {
-        throw new Error("Failed to fetch device details");
+        throw new IoSenseError("Failed to fetch device details");
       }
 
-      // Get sensor list
+      // Get sensor list (metadata is also needed for calibration and aliases)
       let metadata: DeviceMetadata | null = null;
       let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
+      if (!finalSensorList || cal || alias || units) {
+        const metadataResult = await abortable(this.getDeviceMetaData(deviceId, useOnPrem), signal);
         if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
           metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensor data available.");
+          finalSensorList = finalSensorList || metadata.sensors?.map(s => s.sensorId) || [];
+          if (finalSensorList.length === 0) throw new IoSenseError("No sensor data available.");
         } else {
-          throw new Error("Failed to fetch device metadata");
+          throw new IoSenseError("Failed to fetch device metadata");
         }
       }
 
-      const unixStart = Math.floor(this.timeToUnix(startTime) / 1000);
-      const params = {
-        device: deviceId,
-        sensor: finalSensorList!.join(','),
-        time: unixStart,
-      };
-
-      const response: AxiosResponse = await axios.get(url, { params });
-
-      const responseData = response.data;
-      if (responseData.success) {
-        throw new Error(this.errorMessage(response, url));
-      }
-
-      const formattedData = this.formatSensorData(responseData[0]);
+      const formattedData = await this._fetchFirstDp(deviceId, finalSensorList!, toUnixMs(startTime, this.tz), useOnPrem, retry, signal);
       return formattedData.length
         ? this.getCleanedTable({
           data: formattedData,
@@ -912,15 +1691,55 @@ export default class DataAccess {
           sensorList: finalSensorList!,
           onPrem: useOnPrem,
           unix,
+          timeFormat,
           metadata,
-          pivotTable: false
+          pivotTable: format === 'wide',
+          units,
         })
         : [];
 
     } catch (err: any) {
-      console.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      this.logger.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
       return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Fetches the first reading of each sensor at or after a time, without validating the device
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorList - Sensor IDs to fetch
+   * @param startTime - Time to search from (Unix milliseconds)
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the request when aborted
+   * @returns Raw data points, one per sensor that has a reading
+   */
+  private async _fetchFirstDp(
+    deviceId: string,
+    sensorList: string[],
+    startTime: number,
+    onPrem: boolean,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): Promise<SensorDataPoint[]> {
+    const url = formatUrl(GET_FIRST_DP, this.dataUrl, onPrem);
+    const params = {
+      device: deviceId,
+      sensor: sensorList.join(','),
+      time: Math.floor(startTime / 1000),
+    };
+
+    const response: AxiosResponse = await this.transport.get(url, { params, retry, signal });
+
+    const responseData = response.data;
+    if (responseData.success) {
+      throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
     }
+
+    return this.formatSensorData(responseData[0]);
   }
 
   /**
@@ -933,7 +1752,19 @@ export default class DataAccess {
    * @param options.endTime - The time up until which to fetch data
    * @param options.alias - Whether to use sensor aliases instead of IDs
    * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Timestamp format when `unix` is false: 'iso', 'local', 'date' or a pattern such as
+   *   'YYYY-MM-DD HH:mm:ss' rendered in the configured `tz`. Defaults to the `timeFormat` config option
+   * @param options.format - 'long' (default) returns one `{ time, sensor, value }` row per reading;
+   *   'wide' returns one row per timestamp with a column per sensor
    * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.fill - Optional gap-filling strategy ('ffill' | 'bfill' | 'linear' | 'nearest'). Sensors are
+   *   aligned by timestamp, filled, and returned with one row per timestamp and sensor (or per timestamp when 'wide')
+   * @param options.tolerance - Maximum gap in milliseconds a value may be filled across, as in `dataQuery`
+   * @param options.units - Optional unit conversion: 'selected' converts each sensor to its `unitSelected`
+   *   unit, or a map such as `{ D5: 'kWh' }` names target units by sensor ID or name. Rows gain a `unit` field
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
    * @returns Array of datapoints with time and sensor values. Each datapoint has the following structure:
    * ```typescript
    * {
@@ -983,7 +1814,7 @@ export default class DataAccess {
    * @throws Error if no sensor data is available for the device
    * @throws Error if the API request fails or returns an error response
    */
-  async getDp(options: GetDpOptions): Promise<any[]> {
+  async getDp<O extends GetDpOptions>(options: O): Promise<QueryRow<O, F>[]> {
     const {
       deviceId,
       sensorList = null,
@@ -992,91 +1823,49 @@ export default class DataAccess {
       endTime = null,
       alias = false,
       unix = false,
+      timeFormat = null,
+      format = 'long',
       onPrem = null,
+      fill = null,
+      tolerance = null,
+      units = null,
+      retry = null,
     } = options;
+    const { signal, dispose } = createAbortScope(options);
 
     try {
-      if (n < 1) throw new Error("Parameter 'n' must be ≥ 1");
+      if (n < 1) throw new ValidationError("Parameter 'n' must be ≥ 1");
 
       const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = GET_DP_URL.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
 
       // Validate device
-      const devices = await this.getDeviceDetails(useOnPrem);
+      const devices = await abortable(this.getDeviceDetails(useOnPrem), signal);
       if (Array.isArray(devices)) {
         if (!devices.some(d => d.devID === deviceId)) {
-          throw new Error(`Device ${deviceId} not added in account`);
+          throw new DeviceNotFoundError(deviceId);
         }
       } else {
-        throw new Error("Failed to fetch device details");
+        throw new IoSenseError("Failed to fetch device details");
       }
 
-      // Get sensor list and metadata
+      // Get sensor list and metadata (metadata is also needed for calibration and aliases)
       let metadata: DeviceMetadata | null = null;
       let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-        console.log('metadataResult', metadataResult);
+      if (!finalSensorList || cal || alias || units) {
+        const metadataResult = await abortable(this.getDeviceMetaData(deviceId, useOnPrem), signal);
         if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
           metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensor data available.");
+          finalSensorList = finalSensorList || metadata.sensors?.map(s => s.sensorId) || [];
+          if (finalSensorList.length === 0) throw new IoSenseError("No sensor data available.");
         } else {
-          throw new Error("Failed to fetch device metadata");
+          throw new IoSenseError("Failed to fetch device metadata");
         }
       }
 
-      const unixEnd = Math.floor(this.timeToUnix(endTime) / 1000);
-      let allData: any[] = [];
-
-      // Process each sensor individually with cursor-based pagination
-      for (const sensor of finalSensorList!) {
-        let cursor: CursorInfo = { end: unixEnd, limit: n };
-        let retry = 0;
-
-        while (cursor.end) {
-          try {
-            const params = {
-              device: deviceId,
-              sensor: sensor,
-              eTime: cursor.end,
-              lim: cursor.limit,
-              cursor: 'true'
-            };
-
-            const response: AxiosResponse = await axios.get(url, { params });
-
-            const responseData = response.data;
-            if (responseData.success) {
-              throw new Error(this.errorMessage(response, url));
-            }
-
-            // Add data to collection
-            if (responseData.data) {
-              allData.push(...responseData.data);
-            }
-
-            // Update cursor for next iteration
-            cursor = responseData.cursor;
-
-          } catch (error: any) {
-            retry++;
-            console.error(`[${error.name}] Retry ${retry}: ${error.message}`);
-
-            if (retry >= MAX_RETRIES) {
-              throw new Error(`Max retries reached while calling ${url}`);
-            }
-
-            const waitTime = retry > 5 ? RETRY_DELAY[1] : RETRY_DELAY[0];
-            await this._sleep(waitTime);
-          }
-        }
-      }
+      const formattedData = await this._fetchLastDp(deviceId, finalSensorList!, toUnixMs(endTime, this.tz), n, useOnPrem, retry, signal);
 
       // Process collected data if not empty
-      if (allData.length > 0) {
-        const formattedData = this.formatSensorData(allData);
+      if (formattedData.length > 0) {
         return this.getCleanedTable({
           data: formattedData,
           alias,
@@ -1085,17 +1874,113 @@ export default class DataAccess {
           sensorList: finalSensorList!,
           onPrem: useOnPrem,
           unix,
+          timeFormat,
           metadata,
-          pivotTable: false
+          pivotTable: format === 'wide',
+          fill,
+          tolerance,
+          units,
         });
       }
 
       return [];
 
     } catch (err: any) {
-      console.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      this.logger.error(`[EXCEPTION] ${err.name || 'Error'}: ${err.message}`);
       return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Fetches the latest `n` readings of each sensor at or before a time, without validating the device
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorList - Sensor IDs to fetch
+   * @param endTime - Time to search back from (Unix milliseconds)
+   * @param n - Number of readings per sensor
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the requests when aborted
+   * @returns Raw data points, sensor by sensor
+   */
+  private async _fetchLastDp(
+    deviceId: string,
+    sensorList: string[],
+    endTime: number,
+    n: number,
+    onPrem: boolean,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): Promise<SensorDataPoint[]> {
+    const url = formatUrl(GET_DP_URL, this.dataUrl, onPrem);
+    const allData: RawSensorData[] = [];
+
+    // Process each sensor individually with cursor-based pagination
+    for (const sensor of sensorList) {
+      let cursor: CursorInfo = { end: Math.floor(endTime / 1000), limit: n };
+
+      while (cursor.end) {
+        const params = {
+          device: deviceId,
+          sensor: sensor,
+          eTime: cursor.end,
+          lim: cursor.limit,
+          cursor: 'true'
+        };
+
+        // Transient failures are retried by the transport
+        const response: AxiosResponse = await this.transport.get(url, { params, retry, signal });
+
+        const responseData = response.data;
+        if (responseData.success) {
+          throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
+        }
+
+        // Add data to collection
+        if (responseData.data) {
+          allData.push(...responseData.data);
+        }
+
+        // Update cursor for next iteration
+        cursor = responseData.cursor;
+      }
     }
+
+    return this.formatSensorData(allData);
+  }
+
+  /**
+   * Resolves the sensor list for a device, fetching metadata when no sensors are given
+   * or when calibration or aliases need it
+   * @param deviceId - The ID of the device
+   * @param sensorList - List of sensor IDs, or null for all sensors
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param needMetadata - Whether to fetch metadata even if a sensor list is given
+   * @param signal - Stops waiting for the metadata lookup when aborted
+   * @returns The final sensor list and the metadata, if it was fetched
+   * @throws Error if the metadata cannot be fetched or the device has no sensors
+   */
+  private async resolveSensors(
+    deviceId: string,
+    sensorList: string[] | null,
+    onPrem: boolean,
+    needMetadata: boolean = false,
+    signal?: AbortSignal
+  ): Promise<{ sensorList: string[]; metadata: DeviceMetadata | null }> {
+    if (sensorList && !needMetadata) {
+      return { sensorList, metadata: null };
+    }
+
+    const metadataResult = await abortable(this.getDeviceMetaData(deviceId, onPrem), signal);
+    if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
+      const metadata = metadataResult as DeviceMetadata;
+      const finalSensorList = sensorList || metadata.sensors?.map(s => s.sensorId) || [];
+      if (finalSensorList.length === 0) throw new IoSenseError('No sensors available.');
+      return { sensorList: finalSensorList, metadata };
+    }
+    throw new IoSenseError('Failed to fetch device metadata');
   }
 
   /**
@@ -1108,13 +1993,33 @@ export default class DataAccess {
    * @param options.cal - Whether to apply calibration to sensor values
    * @param options.alias - Whether to use sensor aliases instead of IDs
    * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Timestamp format when `unix` is false: 'iso', 'local', 'date' or a pattern such as
+   *   'YYYY-MM-DD HH:mm:ss' rendered in the configured `tz`. Defaults to the `timeFormat` config option
+   * @param options.format - 'wide' (default) returns one row per timestamp with a column per sensor;
+   *   'long' returns one `{ time, sensor, value }` row per reading
    * @param options.onPrem - Whether to use on-premise API endpoints
-   * @returns Array of sensor data points with the following structure:
+   * @param options.parallel - Whether to split the range into cursor batches and fetch them concurrently. Defaults to true;
+   *   falls back to walking the cursor sequentially if the batch list cannot be fetched or its batches overlap or leave gaps
+   * @param options.concurrency - Maximum number of batches fetched at once. Defaults to MAX_CONCURRENT_BATCHES
+   * @param options.interval - Optional resampling interval such as '15m', '1h' or '1d'. Buckets are aligned to
+   *   wall-clock time in the instance timezone and labelled with their start time
+   * @param options.aggregate - Aggregation applied per bucket when resampling
+   *   ('mean' | 'min' | 'max' | 'sum' | 'first' | 'last' | 'count'). Defaults to 'mean'
+   * @param options.fill - Optional gap-filling strategy for the pivoted rows: 'ffill', 'bfill', 'linear'
+   *   (time-weighted interpolation) or 'nearest' (merges timestamps within `tolerance` into one row)
+   * @param options.tolerance - Maximum gap in milliseconds a value may be filled across.
+   *   Unlimited by default, except for 'nearest' where it defaults to 1000
+   * @param options.units - Optional unit conversion: 'selected' converts each sensor to its `unitSelected`
+   *   unit, or a map such as `{ D5: 'kWh' }` names target units by sensor ID or name. Pivoted rows gain a
+   *   `units` map of sensor → unit
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of rows; in the default 'wide' format each has the following structure:
    * ```typescript
    * Array<{
    *   time: string | number;    // Timestamp (ISO string or Unix timestamp based on unix option)
-   *   sensor: string;          // Sensor ID or name (based on alias option)
-   *   value: number | null;    // Sensor reading value or null if no data
+   *   [sensor: string]: number | null;  // One column per sensor, keyed by ID or name (based on alias option)
    * }>
    * ```
    * 
@@ -1139,34 +2044,20 @@ export default class DataAccess {
    * 
    * // Example output:
    * // [
-   * //   {
-   * //     "time": "2024-04-10T00:00:00.000Z",
-   * //     "sensor": "Line Voltage",
-   * //     "value": 230.5
-   * //   },
-   * //   {
-   * //     "time": "2024-04-10T00:00:00.000Z",
-   * //     "sensor": "Average Current",
-   * //     "value": 4.2
-   * //   },
-   * //   {
-   * //     "time": "2024-04-10T00:15:00.000Z",
-   * //     "sensor": "Line Voltage",
-   * //     "value": 231.2
-   * //   },
-   * //   {
-   * //     "time": "2024-04-10T00:15:00.000Z",
-   * //     "sensor": "Average Current",
-   * //     "value": 4.1
-   * //   }
+   * //   { "time": "2024-04-10T00:00:00.000Z", "Line Voltage": 230.5, "Average Current": 4.2 },
+   * //   { "time": "2024-04-10T00:15:00.000Z", "Line Voltage": 231.2, "Average Current": 4.1 }
    * // ]
+   *
+   * // The same data with one row per reading
+   * const long = await dataAccess.dataQuery({ deviceId: 'DS_TEST_DTING', sensorList: ['AVT', 'ACR'], format: 'long' });
+   * // [{ "time": "2024-04-10T00:00:00.000Z", "sensor": "AVT", "value": 230.5 }, ...]
    * ```
    * 
    * @throws Error if the time range is invalid (start > end)
    * @throws Error if the specified device is not found in the account
    * @throws Error if no sensor data is available for the device
    */
-  async dataQuery(options: DataQueryOptions): Promise<any[]> {
+  async dataQuery<O extends DataQueryOptions>(options: O): Promise<QueryRow<O, F, 'wide'>[]> {
     const {
       deviceId,
       sensorList = null,
@@ -1175,39 +2066,39 @@ export default class DataAccess {
       cal = true,
       alias = false,
       unix = false,
+      timeFormat = null,
+      format = 'wide',
       onPrem = null,
+      parallel = true,
+      concurrency = MAX_CONCURRENT_BATCHES,
+      interval = null,
+      aggregate = 'mean',
+      fill = null,
+      tolerance = null,
+      units = null,
+      retry = null,
     } = options;
+    const { signal, dispose } = createAbortScope(options);
 
     try {
       const useOnPrem = onPrem ?? this.onPrem;
-      const startUnix = this.timeToUnix(startTime);
-      const endUnix = this.timeToUnix(endTime);
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
 
       if (endUnix < startUnix) {
-        throw new Error(`Invalid time range: start (${startTime}) > end (${endTime})`);
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
       }
 
-      const devices = await this.getDeviceDetails(useOnPrem);
+      const devices = await abortable(this.getDeviceDetails(useOnPrem), signal);
       if (Array.isArray(devices)) {
         if (!devices.some(d => d.devID === deviceId)) {
-          throw new Error(`Device ${deviceId} not found in account`);
+          throw new DeviceNotFoundError(deviceId, `Device ${deviceId} not found in account`);
         }
       } else {
-        throw new Error("Failed to fetch device details");
+        throw new IoSenseError("Failed to fetch device details");
       }
 
-      let metadata: DeviceMetadata | null = null;
-      let finalSensorList = sensorList;
-      if (!finalSensorList) {
-        const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
-        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
-          metadata = metadataResult as DeviceMetadata;
-          finalSensorList = metadata.sensors?.map(s => s.sensorId) || [];
-          if (finalSensorList.length === 0) throw new Error("No sensors available.");
-        } else {
-          throw new Error("Failed to fetch device metadata");
-        }
-      }
+      const { sensorList: finalSensorList, metadata } = await this.resolveSensors(deviceId, sensorList, useOnPrem, cal || alias || !!units, signal);
 
       return await this._influxdb({
         deviceId,
@@ -1216,15 +2107,203 @@ export default class DataAccess {
         alias,
         cal,
         unix,
-        sensorList: finalSensorList!,
+        timeFormat,
+        format,
+        sensorList: finalSensorList,
         metadata,
         onPrem: useOnPrem,
+        parallel,
+        concurrency,
+        interval,
+        aggregate,
+        fill,
+        tolerance,
+        units,
+        retry,
+        signal,
       });
 
     } catch (err: any) {
-      console.error(`[DATA_QUERY ERROR] ${err.name}: ${err.message}`);
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      this.logger.error(`[DATA_QUERY ERROR] ${err.name}: ${err.message}`);
       return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Queries sensor data for several devices over the same time range.
+   * The account's device list is fetched once and devices are queried with bounded concurrency.
+   * @param options - Configuration options
+   * @param options.devices - Devices to query, each with an optional sensor list (null fetches all sensors)
+   * @param options.startTime - Start time for the query range
+   * @param options.endTime - End time for the query range
+   * @param options.cal - Whether to apply calibration to sensor values
+   * @param options.alias - Whether to use sensor aliases instead of IDs
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - Timestamp format when `unix` is false: 'iso', 'local', 'date' or a pattern such as
+   *   'YYYY-MM-DD HH:mm:ss' rendered in the configured `tz`. Defaults to the `timeFormat` config option
+   * @param options.format - 'wide' (default) or 'long', as in `dataQuery`
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.concurrency - Maximum number of devices queried at once. Defaults to MAX_CONCURRENT_DEVICES
+   * @param options.parallel - Whether each device's range is fetched in concurrent cursor batches, as in `dataQuery`
+   * @param options.batchConcurrency - Maximum number of batches fetched at once per device, like `dataQuery`'s
+   *   `concurrency`. Defaults to MAX_CONCURRENT_BATCHES
+   * @param options.combine - If true, returns one table with a `device` column instead of results keyed by device
+   * @param options.interval - Optional resampling interval, as in `dataQuery`
+   * @param options.aggregate - Aggregation applied per bucket when resampling, as in `dataQuery`
+   * @param options.fill - Optional gap-filling strategy for each device's rows, as in `dataQuery`
+   * @param options.tolerance - Maximum gap in milliseconds a value may be filled across, as in `dataQuery`
+   * @param options.units - Optional unit conversion, as in `dataQuery`; a map applies to every device
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Results keyed by device ID (each in the `dataQuery` format), or a single table when `combine` is true.
+   *   Devices that are not in the account or fail to load map to an empty array.
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   *
+   * const byDevice = await dataAccess.dataQueryMany({
+   *   devices: [
+   *     { deviceId: 'APREM_A1', sensorList: ['D5'] },
+   *     { deviceId: 'APREM_A2', sensorList: ['D5', 'D12'] }
+   *   ],
+   *   startTime: 1718102400000,
+   *   endTime: 1718188800000
+   * });
+   * // { "APREM_A1": [...], "APREM_A2": [...] }
+   *
+   * const table = await dataAccess.dataQueryMany({
+   *   devices: [{ deviceId: 'APREM_A1' }, { deviceId: 'APREM_A2' }],
+   *   startTime: 1718102400000,
+   *   endTime: 1718188800000,
+   *   combine: true
+   * });
+   * // [{ "device": "APREM_A1", "time": "...", "D5": 6418.59 }, ...]
+   * ```
+   *
+   * @throws Error if no devices are provided or a device is listed more than once
+   * @throws Error if the time range is invalid (start > end)
+   */
+  async dataQueryMany<O extends DataQueryManyOptions & { combine: true }>(
+    options: O
+  ): Promise<Array<QueryRow<O, F, 'wide'> & { device: string }>>;
+  async dataQueryMany<O extends DataQueryManyOptions>(options: O): Promise<Record<string, QueryRow<O, F, 'wide'>[]>>;
+  async dataQueryMany(options: DataQueryManyOptions): Promise<Record<string, object[]> | object[]> {
+    const {
+      devices,
+      startTime = null,
+      endTime = null,
+      cal = true,
+      alias = false,
+      unix = false,
+      timeFormat = null,
+      format = 'wide',
+      onPrem = null,
+      concurrency = MAX_CONCURRENT_DEVICES,
+      parallel = true,
+      batchConcurrency = MAX_CONCURRENT_BATCHES,
+      combine = false,
+      interval = null,
+      aggregate = 'mean',
+      fill = null,
+      tolerance = null,
+      units = null,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    const results: Record<string, object[]> = {};
+
+    try {
+      if (!devices || devices.length === 0) {
+        throw new ValidationError('No devices provided.');
+      }
+
+      // Results are keyed by device, so a repeated device would silently replace the earlier entry's rows
+      const duplicates = devices
+        .map(({ deviceId }) => deviceId)
+        .filter((deviceId, index, deviceIds) => deviceIds.indexOf(deviceId) !== index);
+      if (duplicates.length > 0) {
+        throw new ValidationError(`Devices listed more than once: ${[...new Set(duplicates)].join(', ')}. Merge their sensorLists into one entry.`);
+      }
+
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
+
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
+
+      // Validate every device against a single device list
+      const accountDevices = await abortable(this.getDeviceDetails(useOnPrem), signal);
+      if (!Array.isArray(accountDevices)) {
+        throw new IoSenseError('Failed to fetch device details');
+      }
+      const accountDeviceIds = new Set(accountDevices.map(d => d.devID));
+
+      const deviceResults = await mapWithConcurrency(devices, concurrency, async ({ deviceId, sensorList = null }) => {
+        try {
+          if (!accountDeviceIds.has(deviceId)) {
+            throw new DeviceNotFoundError(deviceId, `Device ${deviceId} not found in account`);
+          }
+
+          const { sensorList: finalSensorList, metadata } = await this.resolveSensors(deviceId, sensorList, useOnPrem, cal || alias || !!units, signal);
+
+          return await this._influxdb({
+            deviceId,
+            startTime: startUnix,
+            endTime: endUnix,
+            alias,
+            cal,
+            unix,
+            timeFormat,
+            format,
+            sensorList: finalSensorList,
+            metadata,
+            onPrem: useOnPrem,
+            parallel,
+            concurrency: batchConcurrency,
+            interval,
+            aggregate,
+            fill,
+            tolerance,
+            units,
+            retry,
+            signal,
+          });
+        } catch (err: unknown) {
+          if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+          const { name, message } = toIoSenseError(err);
+          this.logger.error(`[DATA_QUERY ERROR] ${name}: ${message}`, { deviceId });
+          return [];
+        }
+      });
+
+      devices.forEach(({ deviceId }, index) => {
+        results[deviceId] = deviceResults[index];
+      });
+
+    } catch (err: unknown) {
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      const { name, message } = toIoSenseError(err);
+      this.logger.error(`[DATA_QUERY ERROR] ${name}: ${message}`);
+    } finally {
+      dispose();
+    }
+
+    if (combine) {
+      return Object.entries(results).flatMap(([device, rows]) => rows.map(row => ({ device, ...row })));
     }
+    return results;
   }
 
   /**
@@ -1240,82 +2319,56 @@ export default class DataAccess {
       alias = false,
       cal = true,
       unix = false,
+      timeFormat = null,
+      format = 'wide',
       sensorList = [],
       metadata = null,
       onPrem = null,
+      parallel = true,
+      concurrency = MAX_CONCURRENT_BATCHES,
+      interval = null,
+      aggregate = 'mean',
+      fill = null,
+      tolerance = null,
+      units = null,
+      retry = null,
+      signal,
     } = options;
 
-    const MAX_RETRIES_INFLUX = 8;
-    const RETRY_DELAY_INFLUX = [2000, 10000]; // ms
-    const CURSOR_LIMIT = 1000;
-
     try {
       const useOnPrem = onPrem ?? this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
-      const url = INFLUXDB_URL.replace("{protocol}", protocol).replace("{data_url}", this.dataUrl);
 
       let finalSensorList = sensorList;
       let finalMetadata = metadata;
 
+      // Metadata is also needed for calibration and aliases
+      if (!finalMetadata && finalSensorList && finalSensorList.length > 0 && (cal || alias || units)) {
+        const metadataResult = await abortable(this.getDeviceMetaData(deviceId, useOnPrem), signal);
+        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
+          finalMetadata = metadataResult as DeviceMetadata;
+        } else {
+          throw new IoSenseError("Failed to fetch device metadata");
+        }
+      }
+
       if (!finalSensorList || finalSensorList.length === 0) {
         if (!finalMetadata) {
-          const metadataResult = await this.getDeviceMetaData(deviceId, useOnPrem);
+          const metadataResult = await abortable(this.getDeviceMetaData(deviceId, useOnPrem), signal);
           if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
             finalMetadata = metadataResult as DeviceMetadata;
           } else {
-            throw new Error("Failed to fetch device metadata");
+            throw new IoSenseError("Failed to fetch device metadata");
           }
         }
         finalSensorList = finalMetadata?.sensors?.map(s => s.sensorId) || [];
         if (!finalSensorList || finalSensorList.length === 0) {
-          throw new Error("No sensor data available.");
+          throw new IoSenseError("No sensor data available.");
         }
       }
 
-      const sensorValues = finalSensorList.join(',');
-      let cursor: CursorData = { start: startTime, end: endTime };
-      let allData: any[] = [];
-      let retry = 0;
-
-      console.log(`🔍 Polling data for ${deviceId} from Influx...`);
-
-      while (cursor?.start && cursor?.end) {
-        try {
-          const params = {
-            device: deviceId,
-            sensor: sensorValues,
-            sTime: cursor.start,
-            eTime: cursor.end,
-            cursor: true,
-            limit: CURSOR_LIMIT,
-          };
-
-          const startReq = Date.now();
-          const response: AxiosResponse = await axios.get(url, { params });
-          console.log(`✅ API ${url} responded in ${Date.now() - startReq}ms`);
-
-          const { data, cursor: newCursor, success } = response.data;
-          if (success) throw new Error("Influx error: " + JSON.stringify(response.data));
-
-          if (Array.isArray(data)) allData.push(...data);
-          cursor = newCursor;
-
-          console.log(`📦 Fetched ${allData.length} data points so far.`);
-
-        } catch (err: any) {
-          retry++;
-          console.log(`[${err.name}] Retry ${retry}: ${err.message}`);
-          if (retry < MAX_RETRIES_INFLUX) {
-            const delay = retry > 5 ? RETRY_DELAY_INFLUX[1] : RETRY_DELAY_INFLUX[0];
-            await this._sleep(delay);
-          } else {
-            throw new Error("Max retries reached fetching data.");
-          }
-        }
-      }
+      const allData = await this._fetchInfluxData(deviceId, finalSensorList, startTime, endTime, useOnPrem, parallel, concurrency, retry, signal);
 
       if (allData.length > 0) {
-        console.log({ allData });
         return this.getCleanedTable({
           data: allData,
           alias,
@@ -1324,153 +2377,842 @@ export default class DataAccess {
           sensorList: finalSensorList,
           onPrem: useOnPrem,
           unix,
+          timeFormat,
+          pivotTable: format === 'wide',
           metadata: finalMetadata,
+          interval,
+          aggregate,
+          fill,
+          tolerance,
+          units,
         });
       } else {
         return [];
       }
 
     } catch (err: any) {
-      console.error(`[INFLUXDB ERROR] ${err.name}: ${err.message}`);
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      this.logger.error(`[INFLUXDB ERROR] ${err.name}: ${err.message}`);
       return [];
     }
   }
 
   /**
-   * Retrieves load entities (clusters) from the API with pagination support.
-   * @param options - Configuration options
-   * @param options.onPrem - Whether to use on-premise API endpoints
-   * @param options.clusters - List of cluster names/IDs to filter by. If null, returns all clusters
-   * @returns Array of load entities/clusters with the following structure:
-   * ```typescript
-   * Array<{
-   *   id: string;           // Unique identifier for the cluster
-   *   name: string;         // Name of the cluster
-   *   devConfigs: Array<{   // Device configurations in the cluster
-   *     devId: string;      // Device identifier
-   *     percentage: number; // Percentage value for the device
-   *     sensor: string;     // Sensor identifier to monitor
-   *   }>;
-   *   [key: string]: any;   // Additional properties specific to the cluster
-   * }>
-   * ```
-   * 
-   * @example
-   * ```typescript
-   * const dataAccess = new DataAccess({
-   *   userId: '645a15922****a319ca5f5ad',
-   *   dataUrl: 'data*****sense.io',
-   *   dsUrl: 'ds-serv*****sense.io'
-   * });
-   * 
-   * // Get all load entities
-   * const allEntities = await dataAccess.getLoadEntities();
-   * 
-   * // Get specific cluster by name
-   * const specificCluster = await dataAccess.getLoadEntities({
-   *   clusters: ['Energy Consumption ( HT )']
-   * });
-   * 
-   * // Example output:
-   * // [
-   * //   {
-   * //     "name": "Energy Consumption ( HT )",
-   * //     "id": "647efd40162",
-   * //     "devConfigs": [
-   * //       {
-   * //         "devId": "APREM_A1",
-   * //         "percentage": 100,
-   * //         "sensor": "D5"
-   * //       },
-   * //       {
-   * //         "devId": "APREM_A2",
-   * //         "percentage": 100,
-   * //         "sensor": "D5"
-   * //       }
-   * //     ]
-   * //   }
-   * // ]
-   * ```
-   * 
-   * @throws Error if no clusters are provided when clusters parameter is an empty array
-   * @throws Error if the API request fails after maximum retries
-   * @throws Error if the API returns an error response
+   * Fetches the raw readings of a range, in concurrent cursor batches when `parallel` is set and the server's
+   * batches tile the range, otherwise with a single sequential cursor. Errors are thrown, never logged.
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorList - Sensor IDs to fetch
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param parallel - Whether to fetch the range in concurrent batches
+   * @param concurrency - Maximum number of batches fetched at once
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the requests when aborted
+   * @returns Raw data points in time order
    */
-  async getLoadEntities(options: GetLoadEntitiesOptions = {}): Promise<LoadEntity[]> {
-    const { onPrem = null, clusters = null } = options;
-
-    try {
-      // Validate clusters input
-      if (clusters !== null && clusters.length === 0) {
-        throw new Error("No clusters provided.");
+  private async _fetchInfluxData(
+    deviceId: string,
+    sensorList: string[],
+    startTime: number,
+    endTime: number,
+    onPrem: boolean,
+    parallel: boolean,
+    concurrency: number,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): Promise<SensorDataPoint[]> {
+    const url = formatUrl(INFLUXDB_URL, this.dataUrl, onPrem);
+    const sensorValues = sensorList.join(',');
+
+    this.logger.debug('Polling data from Influx', { deviceId, url });
+
+    // Split the range into server-side batches and fetch them concurrently
+    let batches: CursorData[] = [];
+    if (parallel) {
+      try {
+        batches = await this._getCursorBatches(deviceId, sensorValues, startTime, endTime, onPrem, retry, signal);
+      } catch (err: unknown) {
+        if (isAbortError(err)) throw err;
+        const { name, message } = toIoSenseError(err);
+        this.logger.warn(`[${name}] Falling back to sequential fetch: ${message}`, { deviceId });
+        batches = [];
+      }
+      if (batches.length > 0 && !this._batchesTileRange(batches, startTime, endTime)) {
+        this.logger.warn('Cursor batches overlap or leave gaps, falling back to sequential fetch', { deviceId, batches: batches.length });
+        batches = [];
       }
+    }
 
-      // Use provided onPrem value or fall back to instance default
-      const useOnPrem = onPrem !== null ? onPrem : this.onPrem;
-      const protocol = useOnPrem ? Protocol.HTTP : Protocol.HTTPS;
+    if (batches.length === 0) {
+      return this._fetchCursorRange(url, deviceId, sensorValues, startTime, endTime, retry, signal);
+    }
 
-      let pageCount = 1;
-      let hasMore = true;
-      const pageSize = 5;
-      let retry = 0;
+    this.logger.debug('Fetching batches', { deviceId, batches: batches.length, concurrency });
+    const batchData = await mapWithConcurrency(batches, concurrency, batch =>
+      this._fetchCursorRange(url, deviceId, sensorValues, batch.start!, batch.end!, retry, signal)
+    );
+    // Neighbouring batches share their edge timestamp and both ranges include it, so rows at or
+    // before the previous batch's last timestamp were already taken from that batch
+    const allData: SensorDataPoint[] = [];
+    let edge = -Infinity;
+    for (const data of batchData) {
+      for (const point of data) {
+        if (toUnixMs(point.time) > edge) allData.push(point);
+      }
+      if (data.length > 0) edge = Math.max(edge, toUnixMs(data[data.length - 1].time));
+    }
+    return allData;
+  }
 
-      let result: LoadEntity[] = [];
-      let response: AxiosResponse | undefined = undefined;
+  /**
+   * Fetches the list of cursor batches that cover a time range, each holding up to CURSOR_LIMIT points
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorValues - Comma-separated sensor IDs
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @param onPrem - Whether to use on-premise API endpoints
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the requests when aborted
+   * @returns Batches sorted by start time
+   */
+  private async _getCursorBatches(
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    onPrem: boolean,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): Promise<CursorData[]> {
+    const url = formatUrl(GET_CURSOR_BATCHES_URL, this.dataUrl, onPrem);
+
+    const params = {
+      device: deviceId,
+      sensor: sensorValues,
+      sTime: startTime,
+      eTime: endTime,
+      limit: CURSOR_LIMIT,
+    };
 
-      // Construct API URL for data retrieval
-      const baseUrl = GET_LOAD_ENTITIES.replace("{protocol}", protocol)
-                                       .replace("{data_url}", this.dataUrl);
+    const response: AxiosResponse = await this.transport.get(url, { params, retry, signal });
+    const { data, success } = response.data;
+    if (success) {
+      throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
+    }
+    if (!Array.isArray(data)) {
+      throw new ApiError('Invalid cursor batch response', { status: response.status, url, body: response.data });
+    }
 
-      const headers = { userID: this.userId };
+    return (data as CursorData[])
+      .filter(batch => batch.start && batch.end)
+      .sort((a, b) => a.start! - b.start!);
+  }
 
-      // Configure axios request options
-      const axiosConfig = {
-        headers: headers,
+  /**
+   * Checks that cursor batches cover a range edge to edge: each batch starts where the previous one ends
+   * @param batches - Batches sorted by start time
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @returns False if the batches overlap, leave a gap, or miss either end of the range
+   */
+  private _batchesTileRange(batches: CursorData[], startTime: number, endTime: number): boolean {
+    if (batches[0].start! > startTime || batches[batches.length - 1].end! < endTime) return false;
+    return batches.every((batch, i) => batch.start! <= batch.end! && (i === 0 || batch.start === batches[i - 1].end));
+  }
+
+  /**
+   * Walks the InfluxDB cursor page by page over a single time range
+   * @param url - The InfluxDB data URL
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorValues - Comma-separated sensor IDs
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the requests when aborted
+   * @returns Raw data points in time order
+   */
+  private async _fetchCursorRange(
+    url: string,
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): Promise<SensorDataPoint<string>[]> {
+    const rangeData: SensorDataPoint<string>[] = [];
+    for await (const page of this._cursorPages(url, deviceId, sensorValues, startTime, endTime, retry, signal)) {
+      rangeData.push(...page);
+      this.logger.debug('Fetched data points', { url, count: rangeData.length });
+    }
+    return rangeData;
+  }
+
+  /**
+   * Yields the raw data of each InfluxDB cursor page over a single time range
+   * @param url - The InfluxDB data URL
+   * @param deviceId - The ID of the device to fetch data from
+   * @param sensorValues - Comma-separated sensor IDs
+   * @param startTime - Range start (Unix milliseconds)
+   * @param endTime - Range end (Unix milliseconds)
+   * @param retry - Retry policy overrides for this call
+   * @param signal - Stops the requests when aborted
+   * @returns Async generator of raw data pages in time order
+   */
+  private async *_cursorPages(
+    url: string,
+    deviceId: string,
+    sensorValues: string,
+    startTime: number,
+    endTime: number,
+    retry: RetryPolicyOptions | null = null,
+    signal?: AbortSignal
+  ): AsyncGenerator<SensorDataPoint<string>[], void, undefined> {
+    const PAGE_LIMIT = 1000;
+
+    let cursor: CursorData = { start: startTime, end: endTime };
+
+    while (cursor?.start && cursor?.end) {
+      let page: SensorDataPoint<string>[] = [];
+      const params = {
+        device: deviceId,
+        sensor: sensorValues,
+        sTime: cursor.start,
+        eTime: cursor.end,
+        cursor: true,
+        limit: PAGE_LIMIT,
       };
 
-      while (hasMore) {
-        try {
-          const requestUrl = `${baseUrl}/${this.userId}/${pageCount}/${pageSize}`;
-          console.log(`Fetching load entities: ${requestUrl}`);
+      const startReq = Date.now();
+      const response: AxiosResponse = await this.transport.get(url, { params, retry, signal });
+      this.logger.debug('API responded', { url, durationMs: Date.now() - startReq });
+
+      const { data, cursor: newCursor, success } = response.data;
+      if (success) throw new ApiError("Influx error: " + JSON.stringify(response.data), { status: response.status, url, body: response.data });
+
+      if (Array.isArray(data)) page = data;
+      cursor = newCursor;
+
+      if (page.length > 0) yield page;
+    }
+  }
+
+  /**
+   * Streams sensor data for a device page by page instead of collecting the whole range in memory.
+   * Each yielded chunk is cleaned like `dataQuery` output (calibration, aliases, Unix timestamps, pivoting).
+   * Rows sharing the last timestamp of a page are held back until the next page, so a pivoted
+   * row is never split across two chunks.
+   * @param options - Same options as `dataQuery`, except `parallel` and `concurrency` (pages are read in order)
+   *   and `interval`/`aggregate` (buckets could span pages)
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Async generator of cleaned data chunks in time order
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   *
+   * const out = fs.createWriteStream('export.ndjson');
+   * for await (const rows of dataAccess.streamDataQuery({
+   *   deviceId: 'DS_TEST_DTING',
+   *   sensorList: ['AVT', 'ACR'],
+   *   startTime: '2023-01-01T00:00:00Z',
+   *   endTime: '2024-01-01T00:00:00Z'
+   * })) {
+   *   for (const row of rows) out.write(JSON.stringify(row) + '\n');
+   * }
+   * out.end();
+   * ```
+   *
+   * @throws Error if the time range is invalid (start > end)
+   * @throws Error if the specified device is not found in the account
+   * @throws Error if no sensor data is available for the device
+   * @throws Error if a page cannot be fetched after maximum retries
+   */
+  async *streamDataQuery<O extends StreamDataQueryOptions>(
+    options: O
+  ): AsyncGenerator<QueryRow<O, F, 'wide'>[], void, undefined> {
+    const {
+      deviceId,
+      sensorList = null,
+      startTime = null,
+      endTime = null,
+      cal = true,
+      alias = false,
+      unix = false,
+      timeFormat = null,
+      format = 'wide',
+      onPrem = null,
+      units = null,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
+
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
+
+      const devices = await abortable(this.getDeviceDetails(useOnPrem), signal);
+      if (Array.isArray(devices)) {
+        if (!devices.some(d => d.devID === deviceId)) {
+          throw new DeviceNotFoundError(deviceId, `Device ${deviceId} not found in account`);
+        }
+      } else {
+        throw new IoSenseError('Failed to fetch device details');
+      }
+
+      const { sensorList: finalSensorList, metadata } = await this.resolveSensors(deviceId, sensorList, useOnPrem, cal || alias || !!units, signal);
+
+      const url = formatUrl(INFLUXDB_URL, this.dataUrl, useOnPrem);
+
+      const clean = (data: SensorDataPoint<string>[]): QueryRow<O, F, 'wide'>[] => this.getCleanedTable({
+        data,
+        alias,
+        cal,
+        deviceId: false,
+        sensorList: finalSensorList,
+        onPrem: useOnPrem,
+        unix,
+        timeFormat,
+        pivotTable: format === 'wide',
+        metadata,
+        units,
+      });
+
+      let carry: SensorDataPoint<string>[] = [];
+      for await (const page of this._cursorPages(url, deviceId, finalSensorList.join(','), startUnix, endUnix, retry, signal)) {
+        const rows = carry.concat(page);
+        const lastTime = rows[rows.length - 1].time;
+        const ready = rows.filter(row => row.time !== lastTime);
+        carry = rows.filter(row => row.time === lastTime);
+
+        if (ready.length > 0) {
+          const cleaned = clean(ready);
+          if (cleaned.length > 0) yield cleaned;
+        }
+      }
+
+      if (carry.length > 0) {
+        const cleaned = clean(carry);
+        if (cleaned.length > 0) yield cleaned;
+      }
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Computes summary statistics per sensor over a time range in a single pass over the streamed
+   * cursor pages, so the range is never held in memory. Readings are calibrated, converted and
+   * aliased like `dataQuery` output before they are summarized.
+   * @param options - Configuration options
+   * @param options.deviceId - The ID of the device to summarize
+   * @param options.sensorList - Sensors to summarize. Defaults to every sensor of the device
+   * @param options.startTime - Start of the range. Defaults to now
+   * @param options.endTime - End of the range. Defaults to now
+   * @param options.stats - Statistics to compute: 'count', 'min', 'max', 'mean', 'std' (sample), 'first', 'last'
+   *   and percentiles such as 'p50' or 'p99.9'. Defaults to DEFAULT_SUMMARY_STATS.
+   *   Percentiles are P² estimates, exact for up to five readings
+   * @param options.cal - Whether to apply calibration. Defaults to true
+   * @param options.alias - Whether to name sensors by their alias. Defaults to true
+   * @param options.unix - Whether to return `firstTime` and `lastTime` as Unix milliseconds
+   * @param options.timeFormat - How `firstTime` and `lastTime` are rendered when `unix` is false. Defaults to the config `timeFormat`
+   * @param options.units - Convert readings before summarizing: 'selected' or a map of target units
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns One row per sensor with readings in the range, in the order the sensors first appear:
+   * ```typescript
+   * Array<{
+   *   sensor: string;            // Sensor ID, or its alias
+   *   unit?: string | null;      // Present when `units` is set
+   *   count?: number;            // Number of numeric readings
+   *   min?: number | null;
+   *   max?: number | null;
+   *   mean?: number | null;
+   *   std?: number | null;       // null for fewer than two readings
+   *   first?: number | null;     // Earliest reading, at `firstTime`
+   *   firstTime?: string | number | null;
+   *   last?: number | null;      // Latest reading, at `lastTime`
+   *   lastTime?: string | number | null;
+   *   p50?: number | null;       // One key per requested percentile
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   *
+   * const summary = await dataAccess.summarize({
+   *   deviceId: 'DS_TEST_DTING',
+   *   sensorList: ['AVT', 'ACR'],
+   *   startTime: '2024-01-01',
+   *   endTime: '2024-02-01',
+   *   stats: ['min', 'max', 'mean', 'p95']
+   * });
+   * // [{ sensor: 'Voltage', min: 228.1, max: 241.7, mean: 233.9, p95: 238.2 }, ...]
+   * ```
+   *
+   * @throws ValidationError if a stat is unknown or the time range is invalid (start > end)
+   * @throws DeviceNotFoundError if the device is not found in the account
+   */
+  async summarize<O extends SummarizeOptions>(options: O): Promise<SensorSummary<ResultTime<O, F>>[]> {
+    const {
+      deviceId,
+      sensorList = null,
+      startTime = null,
+      endTime = null,
+      stats = DEFAULT_SUMMARY_STATS,
+      cal = true,
+      alias = true,
+      unix = false,
+      timeFormat = null,
+      units = null,
+      onPrem = null,
+      retry = null,
+      signal,
+      timeoutMs,
+    } = options;
 
-          response = await axios.get(requestUrl, axiosConfig);
+    try {
+      if (stats.length === 0) {
+        throw new ValidationError('No summary stats requested.');
+      }
+      const percentiles = stats.map(percentileOf).filter((percentile): percentile is number => percentile !== null);
 
-          // Parse the JSON response - Axios automatically parses JSON and puts it in response.data
-          if (!response) {
-            throw new Error("No response received from API");
+      // Long rows with Unix times: each reading is pushed into its sensor's running stats and dropped
+      const summaries = new Map<string, { unit: string | null | undefined; running: RunningStats }>();
+      const pages = this.streamDataQuery({
+        deviceId,
+        sensorList,
+        startTime,
+        endTime,
+        cal,
+        alias,
+        unix: true,
+        format: 'long',
+        units,
+        onPrem,
+        retry,
+        signal,
+        timeoutMs,
+      });
+      for await (const rows of pages) {
+        for (const row of rows) {
+          let summary = summaries.get(row.sensor);
+          if (!summary) {
+            summary = { unit: row.unit, running: new RunningStats(percentiles) };
+            summaries.set(row.sensor, summary);
           }
-          const responseData: LoadEntitiesResponse = response.data;
-          
-          if (responseData.error) {
-            throw new Error(this.errorMessage(response, baseUrl));
+          const value = typeof row.value === 'string' ? parseFloat(row.value) : row.value ?? NaN;
+          summary.running.push(value, row.time);
+        }
+      }
+
+      type Time = ResultTime<O, F>;
+      const renderTime = (ms: number): Time => (unix ? ms : formatTime(ms, timeFormat ?? this.timeFormat, this.tz)) as Time;
+
+      return [...summaries].map(([sensor, { unit, running }]) => {
+        const row: SensorSummary<Time> = { sensor };
+        if (unit !== undefined) row.unit = unit;
+        for (const stat of stats) {
+          switch (stat) {
+            case 'count':
+              row.count = running.count;
+              break;
+            case 'min':
+              row.min = running.min;
+              break;
+            case 'max':
+              row.max = running.max;
+              break;
+            case 'mean':
+              row.mean = running.mean;
+              break;
+            case 'std':
+              row.std = running.std;
+              break;
+            case 'first':
+              row.first = running.first?.value ?? null;
+              row.firstTime = running.first ? renderTime(running.first.time) : null;
+              break;
+            case 'last':
+              row.last = running.last?.value ?? null;
+              row.lastTime = running.last ? renderTime(running.last.time) : null;
+              break;
+            default:
+              row[stat] = running.percentile(percentileOf(stat)!);
           }
+        }
+        return row;
+      });
+    } catch (err: unknown) {
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      const { name, message } = toIoSenseError(err);
+      this.logger.error(`[SUMMARIZE ERROR] ${name}: ${message}`, { deviceId });
+      return [];
+    }
+  }
+
+  /**
+   * Reports data quality per device and sensor over a time range: sensors that went silent,
+   * gaps longer than the expected reporting interval, and readings outside the `min`/`max`
+   * calibration params of the device metadata.
+   * Freshness comes from `getFirstDp` (first reading in the range) and `getDp` (latest reading at or
+   * before `endTime`); gaps and value ranges come from the `dataQuery` readings in the range. A device
+   * whose data cannot be fetched is reported with an `error` rather than as silent.
+   * @param options - Configuration options
+   * @param options.devices - Devices to check, each with an optional sensor list (all sensors when omitted)
+   * @param options.startTime - Start of the range. Defaults to now
+   * @param options.endTime - End of the range. Defaults to now
+   * @param options.expectedInterval - Expected time between readings in milliseconds, for every sensor or as a map
+   *   keyed by sensor ID or name. Sensors without one use the median spacing of their readings in the range
+   * @param options.gapFactor - A gap is a stretch without readings longer than `gapFactor` times the expected
+   *   interval, including the stretches between the range edges and the first and last readings. Defaults to 2
+   * @param options.staleAfter - Milliseconds without a reading before `endTime` after which a sensor is stale.
+   *   Defaults to the gap threshold; sensors that never reported before `endTime` are always stale
+   * @param options.unix - Whether to return times as Unix milliseconds
+   * @param options.timeFormat - How times are rendered when `unix` is false. Defaults to the config `timeFormat`
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.concurrency - Maximum number of devices checked at once. Defaults to MAX_CONCURRENT_DEVICES
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns One report per device, in input order:
+   * ```typescript
+   * Array<{
+   *   deviceId: string;
+   *   error?: string;                  // Why the device could not be checked (when throwOnError is off)
+   *   sensors: Array<{
+   *     sensor: string;                // Sensor ID
+   *     name: string | null;           // Sensor name from the metadata
+   *     readings: number;              // Readings in the range
+   *     firstSeen: string | number | null;  // First reading in the range
+   *     lastSeen: string | number | null;   // Latest reading at or before endTime
+   *     silentForMs: number | null;    // Time from lastSeen to endTime
+   *     stale: boolean;
+   *     expectedIntervalMs: number | null;
+   *     gaps: Array<{ start: string | number; end: string | number; durationMs: number }>;
+   *     bounds: { min: number | null; max: number | null };  // Calibration params
+   *     minValue: number | null;       // Lowest calibrated reading
+   *     maxValue: number | null;       // Highest calibrated reading
+   *     outOfRange: number;            // Calibrated readings outside the bounds
+   *   }>;
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   *
+   * const report = await dataAccess.dataQualityReport({
+   *   devices: [{ deviceId: 'DS_TEST_DTING' }, { deviceId: 'DS_TEST_BOILER', sensorList: ['D5'] }],
+   *   startTime: '2024-01-01',
+   *   endTime: '2024-01-02',
+   *   expectedInterval: 60 * 1000
+   * });
+   * const silent = report.flatMap(device => device.sensors.filter(sensor => sensor.stale));
+   * ```
+   *
+   * @throws ValidationError if no devices are given, `gapFactor` is below 1 or the time range is invalid (start > end)
+   */
+  async dataQualityReport<O extends DataQualityOptions>(options: O): Promise<DeviceQualityReport<ResultTime<O, F>>[]> {
+    const {
+      devices,
+      startTime = null,
+      endTime = null,
+      expectedInterval = null,
+      gapFactor = 2,
+      staleAfter = null,
+      unix = false,
+      timeFormat = null,
+      onPrem = null,
+      concurrency = MAX_CONCURRENT_DEVICES,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      if (!devices || devices.length === 0) {
+        throw new ValidationError('No devices provided.');
+      }
+      if (!(gapFactor >= 1)) {
+        throw new ValidationError("Parameter 'gapFactor' must be ≥ 1");
+      }
 
-          // Extend result with retrieved responseData
-          result = [...result, ...responseData.data];
+      const useOnPrem = onPrem ?? this.onPrem;
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
 
-          // Update pagination state
-          const totalCount = responseData.totalCount;
-          hasMore = result.length < totalCount;
-          pageCount += 1;
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
 
-          console.log(`Fetched ${result.length}/${totalCount} load entities`);
+      // Validate every device against a single device list
+      const accountDevices = await abortable(this.getDeviceDetails(useOnPrem), signal);
+      if (!Array.isArray(accountDevices)) {
+        throw new IoSenseError('Failed to fetch device details');
+      }
+      const accountDeviceIds = new Set(accountDevices.map(d => d.devID));
 
-        } catch (error: any) {
-          retry += 1;
-          const errorResponse = error.response || (response ? response : undefined);
-          console.error(
-            `[${error.name}] Retry Count: ${retry}, ${error.message} ${this.errorMessage(errorResponse, baseUrl)}`
-          );
+      type Time = ResultTime<O, F>;
+      const renderTime = (ms: number): Time => (unix ? ms : formatTime(ms, timeFormat ?? this.timeFormat, this.tz)) as Time;
 
-          if (retry < MAX_RETRIES) {
-            const sleepTime = retry > 5 ? RETRY_DELAY[1] : RETRY_DELAY[0];
-            await this._sleep(sleepTime);
-          } else {
-            throw new Error(
-              `Max retries for data fetching from api-layer exceeded. ${this.errorMessage(errorResponse, baseUrl)}`
-            );
+      return await mapWithConcurrency(devices, concurrency, async ({ deviceId, sensorList = null }) => {
+        try {
+          if (!accountDeviceIds.has(deviceId)) {
+            throw new DeviceNotFoundError(deviceId, `Device ${deviceId} not found in account`);
           }
+
+          const { sensorList: finalSensorList, metadata } = await this.resolveSensors(deviceId, sensorList, useOnPrem, true, signal);
+
+          // Raw readings with Unix times; calibration is applied below without clamping so out-of-range values stay
+          // visible. The device is already validated, and the fetchers throw so a failure fills in `error` rather
+          // than reading as a silent sensor.
+          const toRows = (points: SensorDataPoint[]): SensorDataPoint<number>[] =>
+            points.map(({ time, sensor, value }) => ({ time: toUnixMs(time), sensor, value }));
+          const [firstRows, lastRows, rows] = (await Promise.all([
+            this._fetchFirstDp(deviceId, finalSensorList, startUnix, useOnPrem, retry, signal),
+            this._fetchLastDp(deviceId, finalSensorList, endUnix, 1, useOnPrem, retry, signal),
+            this._fetchInfluxData(deviceId, finalSensorList, startUnix, endUnix, useOnPrem, true, MAX_CONCURRENT_BATCHES, retry, signal),
+          ])).map(toRows);
+
+          const firstSeen = new Map<string, number>();
+          firstRows.forEach(({ sensor, time }) => {
+            // The first reading after startTime may lie beyond the range
+            if (time > endUnix) return;
+            if (!firstSeen.has(sensor) || time < firstSeen.get(sensor)!) firstSeen.set(sensor, time);
+          });
+          const lastSeen = new Map<string, number>();
+          lastRows.forEach(({ sensor, time }) => {
+            if (!lastSeen.has(sensor) || time > lastSeen.get(sensor)!) lastSeen.set(sensor, time);
+          });
+          const readings = new Map<string, SensorDataPoint<number>[]>();
+          rows.forEach((row) => {
+            if (!readings.has(row.sensor)) readings.set(row.sensor, []);
+            readings.get(row.sensor)!.push(row);
+          });
+
+          const sensors = finalSensorList.map((sensor): SensorQualityReport<Time> => {
+            const name = metadata?.sensors?.find(s => s.sensorId === sensor)?.sensorName ?? null;
+            const sensorRows = (readings.get(sensor) ?? []).sort((a, b) => a.time - b.time);
+            const times = sensorRows.map(row => row.time);
+
+            const expected = typeof expectedInterval === 'number'
+              ? expectedInterval
+              : expectedInterval?.[sensor] ?? (name !== null ? expectedInterval?.[name] : undefined)
+                ?? median(times.slice(1).map((time, i) => time - times[i]));
+            const gapLimit = expected !== null && expected > 0 ? expected * gapFactor : null;
+
+            const gaps: DataGap<Time>[] = [];
+            if (gapLimit !== null) {
+              const edges = [startUnix, ...times, endUnix];
+              for (let i = 1; i < edges.length; i++) {
+                const durationMs = edges[i] - edges[i - 1];
+                if (durationMs > gapLimit) {
+                  gaps.push({ start: renderTime(edges[i - 1]), end: renderTime(edges[i]), durationMs });
+                }
+              }
+            }
+
+            const { bounds, apply } = this.calibration.resolve(metadata?.params?.[sensor], {
+              deviceId,
+              devTypeID: metadata?.devTypeID,
+              sensor,
+            });
+            let minValue: number | null = null;
+            let maxValue: number | null = null;
+            let outOfRange = 0;
+            sensorRows.forEach(({ value }) => {
+              const raw = typeof value === 'string' ? parseFloat(value) : value ?? NaN;
+              if (!Number.isFinite(raw)) return;
+              const calibrated = apply(raw);
+              if (minValue === null || calibrated < minValue) minValue = calibrated;
+              if (maxValue === null || calibrated > maxValue) maxValue = calibrated;
+              if ((bounds.min !== null && calibrated < bounds.min) || (bounds.max !== null && calibrated > bounds.max)) {
+                outOfRange++;
+              }
+            });
+
+            const last = lastSeen.get(sensor) ?? times[times.length - 1] ?? null;
+            const first = firstSeen.get(sensor) ?? times[0] ?? null;
+            const silentForMs = last !== null ? Math.max(0, endUnix - last) : null;
+            const staleLimit = staleAfter ?? gapLimit;
+
+            return {
+              sensor,
+              name,
+              readings: sensorRows.length,
+              firstSeen: first !== null ? renderTime(first) : null,
+              lastSeen: last !== null ? renderTime(last) : null,
+              silentForMs,
+              stale: silentForMs === null || (staleLimit !== null && silentForMs > staleLimit),
+              expectedIntervalMs: expected,
+              gaps,
+              bounds,
+              minValue,
+              maxValue,
+              outOfRange,
+            };
+          });
+
+          return { deviceId, sensors };
+        } catch (err: unknown) {
+          if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+          const { name, message } = toIoSenseError(err);
+          this.logger.error(`[DATA_QUALITY ERROR] ${name}: ${message}`, { deviceId });
+          return { deviceId, sensors: [], error: message };
+        }
+      });
+    } catch (err: unknown) {
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      const { name, message } = toIoSenseError(err);
+      this.logger.error(`[DATA_QUALITY ERROR] ${name}: ${message}`);
+      return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Retrieves load entities (clusters) from the API with pagination support.
+   * @param options - Configuration options
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.clusters - List of cluster names/IDs to filter by. If null, returns all clusters
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of load entities/clusters with the following structure:
+   * ```typescript
+   * Array<{
+   *   id: string;           // Unique identifier for the cluster
+   *   name: string;         // Name of the cluster
+   *   devConfigs: Array<{   // Device configurations in the cluster
+   *     devId: string;      // Device identifier
+   *     percentage: number; // Percentage value for the device
+   *     sensor: string;     // Sensor identifier to monitor
+   *   }>;
+   *   [key: string]: any;   // Additional properties specific to the cluster
+   * }>
+   * ```
+   * 
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   * 
+   * // Get all load entities
+   * const allEntities = await dataAccess.getLoadEntities();
+   * 
+   * // Get specific cluster by name
+   * const specificCluster = await dataAccess.getLoadEntities({
+   *   clusters: ['Energy Consumption ( HT )']
+   * });
+   * 
+   * // Example output:
+   * // [
+   * //   {
+   * //     "name": "Energy Consumption ( HT )",
+   * //     "id": "647efd40162",
+   * //     "devConfigs": [
+   * //       {
+   * //         "devId": "APREM_A1",
+   * //         "percentage": 100,
+   * //         "sensor": "D5"
+   * //       },
+   * //       {
+   * //         "devId": "APREM_A2",
+   * //         "percentage": 100,
+   * //         "sensor": "D5"
+   * //       }
+   * //     ]
+   * //   }
+   * // ]
+   * ```
+   * 
+   * @throws Error if no clusters are provided when clusters parameter is an empty array
+   * @throws Error if the API request fails after maximum retries
+   * @throws Error if the API returns an error response
+   */
+  async getLoadEntities(options: GetLoadEntitiesOptions = {}): Promise<LoadEntity[]> {
+    const { onPrem = null, clusters = null, retry = null } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      // Validate clusters input
+      if (clusters !== null && clusters.length === 0) {
+        throw new ValidationError("No clusters provided.");
+      }
+
+      // Use provided onPrem value or fall back to instance default
+      const useOnPrem = onPrem !== null ? onPrem : this.onPrem;
+
+      let pageCount = 1;
+      let hasMore = true;
+      const pageSize = 5;
+
+      let result: LoadEntity[] = [];
+
+      // Construct API URL for data retrieval
+      const baseUrl = formatUrl(GET_LOAD_ENTITIES, this.dataUrl, useOnPrem);
+
+      const headers = { userID: this.userId };
+
+      // Configure request options
+      const axiosConfig = {
+        headers: headers,
+        retry,
+        signal,
+      };
+
+      while (hasMore) {
+        const requestUrl = `${baseUrl}/${this.userId}/${pageCount}/${pageSize}`;
+        this.logger.debug('Fetching load entities', { url: requestUrl });
+
+        const response: AxiosResponse = await this.transport.get(requestUrl, axiosConfig);
+
+        // Parse the JSON response - Axios automatically parses JSON and puts it in response.data
+        if (!response) {
+          throw new ApiError("No response received from API", { url: requestUrl });
+        }
+        const responseData: LoadEntitiesResponse = response.data;
+
+        if (responseData.error) {
+          throw new ApiError(errorMessage(response, baseUrl), { status: response.status, url: baseUrl, body: response.data });
         }
+
+        // Extend result with retrieved responseData
+        result = [...result, ...responseData.data];
+
+        // Update pagination state
+        const totalCount = responseData.totalCount;
+        hasMore = result.length < totalCount;
+        pageCount += 1;
+
+        this.logger.debug('Fetched load entities', { fetched: result.length, total: totalCount });
       }
 
       // Filter results by cluster names if provided
@@ -1483,14 +3225,600 @@ export default class DataAccess {
       return result;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        console.error(`[AXIOS ERROR] ${error.name}: ${error.message}`);
+        this.logger.error(`[AXIOS ERROR] ${error.name}: ${error.message}`);
       } else if (error instanceof Error) {
-        console.error(`[EXCEPTION] ${error.name}: ${error.message}`);
+        this.logger.error(`[EXCEPTION] ${error.name}: ${error.message}`);
+      } else {
+        this.logger.error(`[EXCEPTION] ${error}`);
+      }
+      return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Retrieves the start and end datapoints of each sensor and the consumption (end - start) between them.
+   * @param options - Configuration options
+   * @param options.deviceId - The ID of the device to fetch data from
+   * @param options.sensorList - List of sensor IDs. If null, fetches data for all sensors
+   * @param options.startTime - Start time for the query range
+   * @param options.endTime - End time for the query range
+   * @param options.interval - Optional bucketing ('hour' | 'day' | 'week' | 'month'), aligned to the instance timezone.
+   *   If omitted, the whole range is returned as a single bucket
+   * @param options.cal - Whether to apply calibration to sensor values
+   * @param options.alias - Whether to use sensor aliases instead of IDs
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - How times are rendered when `unix` is false. Defaults to the config `timeFormat`
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.concurrency - Maximum number of buckets fetched at once. Defaults to MAX_CONCURRENT_BATCHES
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of consumption rows, one per bucket and sensor, with the following structure.
+   *   Each delta runs from the bucket's opening value (its first datapoint, or the previous bucket's last when it
+   *   has none) to the next bucket's opening value (the last datapoint, for the final bucket), so the increase
+   *   between buckets is counted and the deltas add up to the change over the whole range:
+   * ```typescript
+   * Array<{
+   *   time: string | number;              // Start of the bucket
+   *   sensor: string;                     // Sensor ID or name (based on alias option)
+   *   startTime: string | number | null;  // Timestamp of the first datapoint in the bucket
+   *   startValue: number | null;          // Value of the first datapoint in the bucket
+   *   endTime: string | number | null;    // Timestamp of the last datapoint in the bucket
+   *   endValue: number | null;            // Value of the last datapoint in the bucket
+   *   delta: number | null;               // Consumption in the bucket, or null if a boundary value is missing
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io',
+   *   tz: 'Asia/Kolkata'
+   * });
+   *
+   * // Daily energy consumption for a week
+   * const result = await dataAccess.consumption({
+   *   deviceId: 'APREM_A1',
+   *   sensorList: ['D5'],
+   *   startTime: '2024-04-01T00:00:00+05:30',
+   *   endTime: '2024-04-08T00:00:00+05:30',
+   *   interval: 'day'
+   * });
+   *
+   * // Example output:
+   * // [
+   * //   {
+   * //     "time": "2024-03-31T18:30:00.000Z",
+   * //     "sensor": "D5",
+   * //     "startTime": "2024-03-31T18:30:04.000Z",
+   * //     "startValue": 6418.59,
+   * //     "endTime": "2024-04-01T18:29:58.000Z",
+   * //     "endValue": 6702.11,
+   * //     "delta": 283.52
+   * //   },
+   * //   // ... one row per day and sensor
+   * // ]
+   * ```
+   *
+   * @throws Error if the time range is invalid (start > end)
+   * @throws Error if the specified device is not found in the account
+   * @throws Error if no sensor data is available for the device
+   * @throws Error if the API request fails after maximum retries
+   */
+  async consumption<O extends ConsumptionOptions>(options: O): Promise<ConsumptionRow<ResultTime<O, F>>[]> {
+    const {
+      deviceId,
+      sensorList = null,
+      startTime = null,
+      endTime = null,
+      interval = null,
+      cal = true,
+      alias = false,
+      unix = false,
+      timeFormat = null,
+      onPrem = null,
+      concurrency = MAX_CONCURRENT_BATCHES,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      const useOnPrem = onPrem ?? this.onPrem;
+      const url = formatUrl(CONSUMPTION_URL, this.dataUrl, useOnPrem);
+
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
+
+      // Validate device
+      const devices = await abortable(this.getDeviceDetails(useOnPrem), signal);
+      if (Array.isArray(devices)) {
+        if (!devices.some(d => d.devID === deviceId)) {
+          throw new DeviceNotFoundError(deviceId);
+        }
+      } else {
+        throw new IoSenseError('Failed to fetch device details');
+      }
+
+      // Metadata is needed for the sensor list, calibration and aliases
+      let metadata: DeviceMetadata | null = null;
+      let finalSensorList = sensorList;
+      if (!finalSensorList || cal || alias) {
+        const metadataResult = await abortable(this.getDeviceMetaData(deviceId, useOnPrem), signal);
+        if (metadataResult && typeof metadataResult === 'object' && 'sensors' in metadataResult) {
+          metadata = metadataResult as DeviceMetadata;
+        } else {
+          throw new IoSenseError('Failed to fetch device metadata');
+        }
+      }
+      if (!finalSensorList) {
+        finalSensorList = metadata?.sensors?.map(s => s.sensorId) || [];
+        if (finalSensorList.length === 0) throw new IoSenseError('No sensor data available.');
+      }
+
+      const buckets = this.getBuckets(startUnix, endUnix, interval);
+      const sensors = finalSensorList;
+
+      // Fetch the first and last datapoint of every sensor in each bucket
+      const bucketRows = await mapWithConcurrency(buckets, concurrency, async (bucket, index) => {
+        const params = {
+          device: deviceId,
+          sensor: finalSensorList.join(','),
+          sTime: bucket.start,
+          eTime: bucket.end,
+        };
+
+        const response: AxiosResponse = await this.transport.get(url, {
+          params,
+          headers: { userID: this.userId },
+          retry,
+          signal,
+        });
+
+        const responseData = response.data;
+        if (responseData.success) {
+          throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
+        }
+
+        const sensorData: Record<string, StartEndDp> = responseData.data || {};
+        const rows: Array<SensorDataPoint & { bucket: number; edge: 'start' | 'end' }> = [];
+        for (const sensor of sensors) {
+          const { start = null, end = null } = sensorData[sensor] || {};
+          if (start?.time !== undefined) {
+            rows.push({ time: start.time, sensor, value: start.value ?? null, bucket: index, edge: 'start' });
+          }
+          if (end?.time !== undefined) {
+            rows.push({ time: end.time, sensor, value: end.value ?? null, bucket: index, edge: 'end' });
+          }
+        }
+        return rows;
+      });
+      const edgeRows = bucketRows.flat();
+
+      // Calibrate, alias and convert the edge datapoints the same way as every other query
+      const cleanedRows = edgeRows.length
+        ? this.getCleanedTable({
+          data: edgeRows,
+          alias: false,
+          cal,
+          deviceId: false,
+          sensorList: finalSensorList,
+          onPrem: useOnPrem,
+          unix,
+          timeFormat,
+          metadata,
+          pivotTable: false
+        })
+        : [];
+
+      const aliasMap: Record<string, string> = {};
+      if (alias && metadata?.sensors) {
+        metadata.sensors.forEach(sensor => {
+          aliasMap[sensor.sensorId] = sensor.sensorName;
+        });
+      }
+
+      const toNumber = (value: unknown): number | null => {
+        if (value === null || value === undefined) return null;
+        const parsed = parseFloat(String(value));
+        return isNaN(parsed) ? null : parsed;
+      };
+
+      const perSensor = sensors.map((sensor) => {
+        const edges = buckets.map((_, index) => {
+          const start = cleanedRows.find(row => row.bucket === index && row.sensor === sensor && row.edge === 'start');
+          const end = cleanedRows.find(row => row.bucket === index && row.sensor === sensor && row.edge === 'end');
+          return { start, end, startValue: start ? toNumber(start.value) : null, endValue: end ? toNumber(end.value) : null };
+        });
+
+        // Value at each bucket boundary: the first datapoint after it, else the last one before it.
+        // The final boundary is the last datapoint of the range, so the deltas add up to the total.
+        const boundaries = edges.map(({ startValue }, index) => startValue ?? (index > 0 ? edges[index - 1].endValue : null));
+        const last = edges.length - 1;
+        boundaries.push(edges[last]?.endValue ?? boundaries[last] ?? null);
+        return { sensor, edges, boundaries };
+      });
+
+      const renderTime = (ms: number): ResultTime<O, F> =>
+        (unix ? ms : formatTime(ms, timeFormat ?? this.timeFormat, this.tz)) as ResultTime<O, F>;
+      const result: ConsumptionRow<ResultTime<O, F>>[] = [];
+      buckets.forEach((bucket, index) => {
+        for (const { sensor, edges, boundaries } of perSensor) {
+          const { start, end, startValue, endValue } = edges[index];
+          const opening = boundaries[index];
+          const closing = boundaries[index + 1];
+          result.push({
+            time: renderTime(bucket.label),
+            sensor: aliasMap[sensor] || sensor,
+            startTime: start ? start.time : null,
+            startValue,
+            endTime: end ? end.time : null,
+            endValue,
+            delta: opening !== null && closing !== null ? closing - opening : null,
+          });
+        }
+      });
+
+      return result;
+
+    } catch (err: unknown) {
+      if (this.throwOnError || isAbortError(err)) throw toIoSenseError(err);
+      const { name, message } = toIoSenseError(err);
+      this.logger.error(`[CONSUMPTION ERROR] ${name}: ${message}`);
+      return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Aggregates the member devices of load entities (clusters) into one time series per cluster.
+   * @param options - Configuration options
+   * @param options.clusters - List of cluster names or IDs, matched the same way as `getLoadEntities`
+   * @param options.startTime - Start time for the aggregation range
+   * @param options.endTime - End time for the aggregation range
+   * @param options.operator - Aggregation applied across the cluster ('sum' | 'mean' | 'min' | 'max' | 'count'). Defaults to 'sum'
+   * @param options.periodicity - Optional bucket size ('hour' | 'day' | 'week' | 'month' | 'quarter' | 'year')
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.timeFormat - How times are rendered when `unix` is false. Defaults to the config `timeFormat`
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.concurrency - Maximum number of clusters aggregated at once. Defaults to MAX_CONCURRENT_DEVICES
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of cluster time series with the following structure:
+   * ```typescript
+   * Array<{
+   *   id: string;                 // Cluster identifier
+   *   name: string;               // Cluster name
+   *   data: Array<{
+   *     time: string | number;    // Start of the period (Unix timestamp, or rendered with timeFormat)
+   *     value: number | null;     // Aggregated cluster value, with device percentages applied
+   *   }>;
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io',
+   *   tz: 'Asia/Kolkata'
+   * });
+   *
+   * const result = await dataAccess.getClusterAggregation({
+   *   clusters: ['Energy Consumption ( HT )'],
+   *   startTime: '2024-04-01T00:00:00+05:30',
+   *   endTime: '2024-04-08T00:00:00+05:30',
+   *   operator: 'sum',
+   *   periodicity: 'day'
+   * });
+   *
+   * // Example output:
+   * // [
+   * //   {
+   * //     "id": "647efd40162",
+   * //     "name": "Energy Consumption ( HT )",
+   * //     "data": [
+   * //       { "time": "2024-03-31T18:30:00.000Z", "value": 5321.4 },
+   * //       { "time": "2024-04-01T18:30:00.000Z", "value": 5187.9 }
+   * //     ]
+   * //   }
+   * // ]
+   * ```
+   *
+   * @throws Error if no clusters are provided or a cluster name/ID is not found
+   * @throws Error if the time range is invalid (start > end)
+   * @throws Error if the API request fails after maximum retries
+   */
+  async getClusterAggregation<O extends ClusterAggregationOptions>(options: O): Promise<ClusterAggregation<ResultTime<O, F>>[]> {
+    const {
+      clusters,
+      startTime = null,
+      endTime = null,
+      operator = 'sum',
+      periodicity = null,
+      unix = false,
+      timeFormat = null,
+      onPrem = null,
+      concurrency = MAX_CONCURRENT_DEVICES,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      if (!clusters || clusters.length === 0) {
+        throw new ValidationError('No clusters provided.');
+      }
+
+      const useOnPrem = onPrem ?? this.onPrem;
+      const url = formatUrl(CLUSTER_AGGREGATION, this.dataUrl, useOnPrem);
+
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
+
+      const renderTime = (ms: number): ResultTime<O, F> =>
+        (unix ? ms : formatTime(ms, timeFormat ?? this.timeFormat, this.tz)) as ResultTime<O, F>;
+
+      // Resolve cluster names/IDs to load entities
+      const entities = await this.getLoadEntities({ onPrem: useOnPrem, clusters, retry, signal });
+      const missing = clusters.filter(
+        cluster => !entities.some(entity => entity.name === cluster || entity.id === cluster)
+      );
+      if (missing.length > 0) {
+        throw new ValidationError(`Clusters not found: ${missing.join(', ')}`);
+      }
+
+      return await mapWithConcurrency(entities, concurrency, async (entity): Promise<ClusterAggregation<ResultTime<O, F>>> => {
+        const payload: ClusterAggregationRequest = {
+          userID: this.userId,
+          clusterID: entity.id,
+          startTime: startUnix,
+          endTime: endUnix,
+          operator,
+          timezone: this.tz,
+          ...(periodicity && { periodicity }),
+        };
+
+        const response: AxiosResponse<ClusterAggregationResponse> = await this.transport.put(url, payload, {
+          headers: { userID: this.userId },
+          retry,
+          signal,
+        });
+
+        if (response.data.errors) {
+          throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
+        }
+
+        // Period starts are wall-clock times in the requested timezone unless they carry an offset
+        const points: Array<{ ms: number; value: number | null }> = [];
+        for (const [time, value] of Object.entries(response.data.data ?? {})) {
+          let ms: number;
+          try {
+            ms = toUnixMs(time, this.tz);
+          } catch {
+            this.logger.warn('Skipping cluster period that is not a time', { cluster: entity.name, period: time });
+            continue;
+          }
+          points.push({ ms, value: value === null || value === '' || isNaN(Number(value)) ? null : Number(value) });
+        }
+
+        const data = points
+          .sort((a, b) => a.ms - b.ms)
+          .map(({ ms, value }) => ({ time: renderTime(ms), value }));
+        return { id: entity.id, name: entity.name, data };
+      });
+
+    } catch (error: unknown) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
+      const { name, message } = toIoSenseError(error);
+      if (axios.isAxiosError(error)) {
+        this.logger.error(`[AXIOS ERROR] ${name}: ${message}`);
       } else {
-        console.error(`[EXCEPTION] ${error}`);
+        this.logger.error(`[EXCEPTION] ${name}: ${message}`);
+      }
+      return [];
+    } finally {
+      dispose();
+    }
+  }
+
+  /**
+   * Fires an expression-scheduler user trigger by its title.
+   * @param options - Configuration options
+   * @param options.title - Title of the user trigger to fire
+   * @param options.payload - Optional extra fields sent along with the title in the request body
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns The response body returned by the expression scheduler
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io'
+   * });
+   *
+   * // Recompute scheduled expressions after a backfill
+   * const result = await dataAccess.fireTrigger({
+   *   title: 'Backfill Recalculation',
+   *   payload: { startTime: 1711929600000, endTime: 1712534400000 }
+   * });
+   *
+   * // Example output:
+   * // { "success": true, "message": "Trigger fired successfully" }
+   * ```
+   *
+   * @throws Error if no title is provided
+   * @throws Error if the API request fails after maximum retries
+   */
+  async fireTrigger(options: TriggerOptions): Promise<TriggerResponse> {
+    const { title, payload = null, onPrem = null, retry = null } = options;
+
+    if (!title) {
+      throw new ValidationError('Trigger title is required.');
+    }
+
+    const useOnPrem = onPrem ?? this.onPrem;
+    const url = formatUrl(TRIGGER_URL, this.dataUrl, useOnPrem);
+
+    const body = { ...(payload || {}), title };
+    const headers = { userID: this.userId };
+
+    const { signal, dispose } = createAbortScope(options);
+    let response: AxiosResponse<TriggerResponse>;
+    try {
+      response = await this.transport.post(url, body, { headers, retry, signal });
+    } catch (error) {
+      throw toIoSenseError(error, url);
+    } finally {
+      dispose();
+    }
+
+    if (response.data?.success === false) {
+      throw new ApiError(`Trigger '${title}' failed: ${JSON.stringify(response.data)}`, {
+        status: response.status,
+        url,
+        body: response.data,
+      });
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Retrieves operation data for a set of devices and sensors within a time window, optionally filtered by value.
+   * @param options - Configuration options
+   * @param options.devices - List of device IDs to fetch data from
+   * @param options.sensors - List of sensor IDs to fetch for every device
+   * @param options.startTime - Start time for the query range, interpreted like `dataQuery` times
+   * @param options.endTime - End time for the query range, interpreted like `dataQuery` times
+   * @param options.filters - Optional value filters, e.g. `{ sensor: 'D5', operator: '>', value: 0 }`.
+   *   A filter without a sensor applies to every sensor
+   * @param options.unix - Whether to return timestamps in Unix format
+   * @param options.onPrem - Whether to use on-premise API endpoints
+   * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+   * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+   * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
+   * @returns Array of operation datapoints with the following structure:
+   * ```typescript
+   * Array<{
+   *   devID: string;            // Device identifier
+   *   sensor: string;           // Sensor identifier
+   *   time: string | number;    // Timestamp (ISO string or Unix timestamp based on unix option)
+   *   value: number | null;     // Operation value
+   * }>
+   * ```
+   *
+   * @example
+   * ```typescript
+   * const dataAccess = new DataAccess({
+   *   userId: '645a15922****a319ca5f5ad',
+   *   dataUrl: 'data*****sense.io',
+   *   dsUrl: 'ds-serv*****sense.io',
+   *   tz: 'Asia/Kolkata'
+   * });
+   *
+   * // Running current only, for a morning shift
+   * const result = await dataAccess.getFilteredOperationData({
+   *   devices: ['APREM_A1', 'APREM_A2'],
+   *   sensors: ['D12'],
+   *   startTime: '2024-04-01T06:00:00+05:30',
+   *   endTime: '2024-04-01T14:00:00+05:30',
+   *   filters: [{ sensor: 'D12', operator: '>', value: 0.5 }]
+   * });
+   *
+   * // Example output:
+   * // [
+   * //   { "devID": "APREM_A1", "sensor": "D12", "time": "2024-04-01T00:30:12.000Z", "value": 12.4 },
+   * //   { "devID": "APREM_A2", "sensor": "D12", "time": "2024-04-01T00:30:15.000Z", "value": 9.8 }
+   * // ]
+   * ```
+   *
+   * @throws Error if no devices or sensors are provided
+   * @throws Error if the time range is invalid (start > end)
+   * @throws Error if the API request fails after maximum retries
+   */
+  async getFilteredOperationData(options: FilteredOperationDataOptions): Promise<OperationDataRow[]> {
+    const {
+      devices,
+      sensors,
+      startTime = null,
+      endTime = null,
+      filters = [],
+      unix = false,
+      onPrem = null,
+      retry = null,
+    } = options;
+    const { signal, dispose } = createAbortScope(options);
+
+    try {
+      if (!devices || devices.length === 0) {
+        throw new ValidationError('No devices provided.');
+      }
+      if (!sensors || sensors.length === 0) {
+        throw new ValidationError('No sensors provided.');
+      }
+
+      const useOnPrem = onPrem ?? this.onPrem;
+      const url = formatUrl(GET_FILTERED_OPERATION_DATA, this.dataUrl, useOnPrem);
+
+      const startUnix = toUnixMs(startTime, this.tz);
+      const endUnix = toUnixMs(endTime, this.tz);
+      if (endUnix < startUnix) {
+        throw new ValidationError(`Invalid time range: start (${startTime}) > end (${endTime})`);
+      }
+
+      const payload = {
+        devices,
+        sensors,
+        startTime: startUnix,
+        endTime: endUnix,
+        filters,
+        timezone: this.tz,
+      };
+
+      const response: AxiosResponse<OperationDataResponse> = await this.transport.put(url, payload, {
+        headers: { userID: this.userId },
+        retry,
+        signal,
+      });
+
+      if (response.data.errors || response.data.success === false) {
+        throw new ApiError(errorMessage(response, url), { status: response.status, url, body: response.data });
       }
+
+      const rows: OperationDataRow[] = response.data.data || [];
+
+      return rows.map(row => ({
+        devID: row.devID,
+        sensor: row.sensor,
+        time: unix ? toUnixMs(row.time) : row.time,
+        value: row.value === null || row.value === undefined || isNaN(Number(row.value)) ? null : Number(row.value),
+      }));
+
+    } catch (error: unknown) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
+      const { name, message } = toIoSenseError(error);
+      this.logger.error(`[OPERATION DATA ERROR] ${name}: ${message}`);
       return [];
+    } finally {
+      dispose();
     }
   }
-} 
\ No newline at end of file
+}
@@ -1,4 +1,4 @@
-import axios, { AxiosResponse } from 'axios';
+import axios from 'axios';
 import {
   PUBLISH_EVENT_URL,
   GET_EVENTS_IN_TIMESLOT_URL,
@@ -10,11 +10,14 @@ import {
   GET_DEVICE_DATA,
   GET_SENSOR_ROWS,
   GET_DEVICE_METADATA_MONGO_URL,
-  Protocol,
   VERSION
 } from '../../utils/constants.js';
-import DataAccess from './DataAccess.js';
-import { start } from 'repl';
+import { ApiError, ValidationError, toIoSenseError } from '../../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../../utils/logger.js';
+import { RetryPolicy, RetryPolicyOptions, WRITE_RETRY_OPTIONS } from '../../utils/retry.js';
+import { createAbortScope, isAbortError } from '../../utils/abort.js';
+import { toIsoUtc, toUnixMs } from '../../utils/time.js';
+import { HttpTransport, HttpTransportOptions, createTransport, errorMessage, formatUrl } from '../../utils/transport.js';
 
 // Type definitions for EventsHandler
 export interface EventsHandlerConfig {
@@ -23,6 +26,10 @@ export interface EventsHandlerConfig {
   onPrem?: boolean;
   tz?: string;
   logTime?: boolean;
+  throwOnError?: boolean;
+  logger?: Logger | LogLevel;
+  transport?: HttpTransport | HttpTransportOptions;
+  retry?: RetryPolicy | RetryPolicyOptions;
 }
 
 export interface PublishEventOptions {
@@ -34,25 +41,44 @@ export interface PublishEventOptions {
   eventNamesList?: string[];
   title?: string;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface EventsInTimeslotOptions {
-  startTime: string | Date;
-  endTime?: string | Date;
+  startTime: string | number | Date;
+  endTime?: string | number | Date;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface EventDataCountOptions {
-  endTime?: string | Date;
+  endTime?: string | number | Date;
   count?: number;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface DetailedEventOptions {
   eventTagsList?: string[];
-  startTime?: string | Date;
-  endTime?: string | Date;
+  startTime?: string | number | Date;
+  endTime?: string | number | Date;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+export interface EventCategoriesOptions {
+  onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface MongoDataOptions {
@@ -80,6 +106,9 @@ export interface MaintenanceModuleDataOptions {
   shiftOperator?: 'sum' | 'mean' | 'median' | 'mode' | 'min' | 'max';
   filter?: Record<string, any>;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface DeviceDataOptions {
@@ -88,6 +117,9 @@ export interface DeviceDataOptions {
   endTime?: string;
   startTime?: string;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface SensorRowsOptions {
@@ -98,6 +130,9 @@ export interface SensorRowsOptions {
   startTime?: string;
   alias?: boolean;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface CreateMongoRowsOptions {
@@ -110,6 +145,35 @@ export interface EventCategory {
   name: string;
 }
 
+/** Event returned by getEventsInTimeslot and getDetailedEvent */
+export interface EventRecord {
+  _id: string;
+  title?: string;
+  devID?: string;
+  message?: string;
+  /** IDs of the event's categories (see getEventCategories) */
+  eventTags?: string[];
+  /** Creation time, UTC ISO 8601 */
+  createdOn?: string;
+  /** Creation date as displayed by the platform, e.g. '18/03/2025' */
+  date?: string;
+  /** Creation time of day as displayed by the platform, e.g. '1:29:57 pm' */
+  time?: string;
+  isRead?: string;
+  metaData?: Record<string, unknown>;
+  hoverData?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/** Row returned by getDeviceData */
+export interface DeviceRow {
+  _id: string;
+  devID: string;
+  /** Sensor fields (D0, D1, ...) and flags such as `fromVMS` */
+  data: Record<string, string | number | boolean | null>;
+  [key: string]: unknown;
+}
+
 export interface ApiResponse<T = any> {
   data: T;
   errors?: string[];
@@ -122,6 +186,9 @@ export default class EventsHandler {
   private onPrem: boolean;
   private tz: string;
   private logTime: boolean;
+  private throwOnError: boolean;
+  private logger: Logger;
+  private transport: HttpTransport;
   public readonly version: string = VERSION;
 
   constructor({
@@ -129,7 +196,11 @@ export default class EventsHandler {
     dataUrl,
     onPrem = false,
     tz = 'UTC',
-    logTime = false
+    logTime = false,
+    throwOnError = false,
+    logger = 'info',
+    transport,
+    retry
   }: EventsHandlerConfig) {
     /**
      * A class to handle event-related operations.
@@ -139,48 +210,22 @@ export default class EventsHandler {
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, the on-premises server is used; otherwise, the cloud server is used
      * @param tz - The timezone to use for time-related operations. If not provided, defaults to UTC
      * @param logTime - Whether to log API response times
+     * @param throwOnError - Throw typed errors (ApiError, ValidationError, ...) instead of logging them and
+     *   returning an empty result. Defaults to false
+     * @param logger - Logger instance or a level for the console logger; 'silent' disables logging. Defaults to 'info'
+     * @param transport - HttpTransport shared with other handlers, or options for a new one (axios instance, headers, timeout, agents)
+     * @param retry - Retry policy for every request (maxAttempts, baseDelayMs, maxDelayMs, jitter, retryable statuses/errors, respectRetryAfter, maxRetryAfterMs). Methods accept `retry` overrides per call.
+     *   Defaults to a single attempt: these endpoints were never retried, so a failing call errors immediately
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
     this.tz = tz;
     this.logTime = logTime;
-  }
-
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
-  }
-
-  private isoUtcTime(time?: string | Date): string {
-    /**
-     * Converts a given time to an ISO 8601 formatted string in UTC.
-     * If no time is provided, the current time in UTC is used.
-     */
-    if (time === undefined || time === null) {
-      return new Date().toISOString();
-    }
-
-    let dateTime: Date;
-    if (typeof time === 'string') {
-      dateTime = new Date(time);
-    } else {
-      dateTime = time;
-    }
-
-    // If the date is invalid, throw an error
-    if (isNaN(dateTime.getTime())) {
-      throw new Error(`Invalid date format: ${time}`);
-    }
-
-    return dateTime.toISOString();
-  }
-
-  private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
+    this.throwOnError = throwOnError;
+    this.logger = createLogger(logger);
+    // Events requests are sent once unless a retry policy is configured
+    this.transport = createTransport(transport).withRetry(retry ?? { maxAttempts: 1 }, this.logger);
   }
 
   async publishEvent(options: PublishEventOptions): Promise<any> {
@@ -188,8 +233,11 @@ export default class EventsHandler {
      * Publish an event with the given details to the server.
      * 
      * @param options - Configuration options for publishing the event
+     * @param options.retry - Retry policy overrides for this call. Only failures that never reached the server
+     *   are retried (WRITE_RETRY_OPTIONS); list `retryableStatuses` or `retryableErrors` to retry timeouts or 5xx
      * @returns The response data from the server
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
       const {
         message,
@@ -199,7 +247,8 @@ export default class EventsHandler {
         eventTagsList,
         eventNamesList,
         title,
-        onPrem
+        onPrem,
+        retry = null
       } = options;
 
       let finalEventTagsList = eventTagsList;
@@ -209,13 +258,13 @@ export default class EventsHandler {
         finalEventTagsList = [];
 
         // Fetch the available event categories from the server
-        const categories = await this.getEventCategories({ onPrem });
+        const categories = await this.getEventCategories({ onPrem, retry, signal });
 
         // Iterate through each name in event_names_list to find its corresponding tag ID
         for (const tagName of eventNamesList) {
           const matched = categories.find((item: EventCategory) => item.name === tagName);
           if (!matched) {
-            throw new Error(`Tag '${tagName}' not found in data.`);
+            throw new ValidationError(`Tag '${tagName}' not found in data.`);
           }
           finalEventTagsList.push(matched._id);
         }
@@ -223,10 +272,10 @@ export default class EventsHandler {
 
       // Ensure that at least one tag is present in event_tags_list after processing
       if (!finalEventTagsList || finalEventTagsList.length === 0) {
-        throw new Error('No event tags found.');
+        throw new ValidationError('No event tags found.');
       }
 
-      const url = this.formatUrl(PUBLISH_EVENT_URL, onPrem);
+      const url = formatUrl(PUBLISH_EVENT_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
       const payload = {
         title: title || null,
@@ -238,31 +287,33 @@ export default class EventsHandler {
       };
 
       const startTime = Date.now();
-      const response = await axios.post(url, payload, { headers });
+      // Publishing twice creates two events, so only failures that never reached the server are retried
+      const response = await this.transport.post(url, payload, { headers, retry: { ...WRITE_RETRY_OPTIONS, ...retry }, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
-      throw error;
+      throw this.throwOnError ? toIoSenseError(error) : error;
+    } finally {
+      dispose();
     }
   }
 
-  async getEventsInTimeslot(options: EventsInTimeslotOptions): Promise<any[]> {
+  async getEventsInTimeslot(options: EventsInTimeslotOptions): Promise<EventRecord[]> {
     /**
      * Retrieves events within a specified time slot.
      * 
@@ -270,6 +321,9 @@ export default class EventsHandler {
      * @param options.startTime - Start time filter in format "YYYY-MM-DD HH:mm:ss"
      * @param options.endTime - End time filter in format "YYYY-MM-DD HH:mm:ss"
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns A list of events found within the specified time slot
      *
      * @example
@@ -321,46 +375,49 @@ export default class EventsHandler {
      * - time: Event time (formatted)
      * - isRead: Read status
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { startTime, endTime, onPrem } = options;
+      const { startTime, endTime, onPrem, retry = null } = options;
 
       // Convert start_time and end_time to iso utc timestamps
-      const startTimeIso = this.isoUtcTime(startTime);
-      const endTimeIso = this.isoUtcTime(endTime);
+      const startTimeIso = toIsoUtc(startTime, this.tz);
+      const endTimeIso = toIsoUtc(endTime, this.tz);
 
       // Raise an error if end_time is before start_time
       if (new Date(endTimeIso) < new Date(startTimeIso)) {
-        throw new Error(
+        throw new ValidationError(
           `Invalid time range: start_time(${startTimeIso}) should be before end_time(${endTimeIso}).`
         );
       }
 
-      const url = this.formatUrl(GET_EVENTS_IN_TIMESLOT_URL, onPrem);
+      const url = formatUrl(GET_EVENTS_IN_TIMESLOT_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
       const payload = { startTime: startTimeIso, endTime: endTimeIso };
 
       const startTimeReq = Date.now();
-      const response = await axios.put(url, payload, { headers });
+      const response = await this.transport.put(url, payload, { headers, retry, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTimeReq) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTimeReq });
       }
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return [];
+    } finally {
+      dispose();
     }
   }
 
@@ -372,6 +429,9 @@ export default class EventsHandler {
      * @param options.endTime - Optional end time filter in format "YYYY-MM-DD HH:mm:ss"
      * @param options.count - Optional number of records to return (default: 10, max: 10000)
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Array of event data records
      * 
      * @example
@@ -413,51 +473,57 @@ export default class EventsHandler {
      * - date: Formatted date of the event
      * - time: Formatted time of the event
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { endTime, count = 10, onPrem } = options;
+      const { endTime, count = 10, onPrem, retry = null } = options;
 
       if (count > 10000) {
-        throw new Error('Count should be less than or equal to 10000.');
+        throw new ValidationError('Count should be less than or equal to 10000.');
       }
 
       // Convert end_time to iso utc timestamp
-      const endTimeIso = this.isoUtcTime(endTime);
+      const endTimeIso = toIsoUtc(endTime, this.tz);
 
-      const url = this.formatUrl(GET_EVENT_DATA_COUNT_URL, onPrem);
+      const url = formatUrl(GET_EVENT_DATA_COUNT_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
       const payload = { endTime: endTimeIso, count };
 
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { headers });
+      const response = await this.transport.put(url, payload, { headers, retry, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return [];
+    } finally {
+      dispose();
     }
   }
 
-  async getEventCategories(options: { onPrem?: boolean } = {}): Promise<EventCategory[]> {
+  async getEventCategories(options: EventCategoriesOptions = {}): Promise<EventCategory[]> {
     /**
      * Retrieve a list of event categories from the server.
      * 
      * @param options - Configuration options
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Array of event categories with their properties
      * 
      * @example
@@ -497,38 +563,41 @@ export default class EventsHandler {
      * - shape: Shape for visualization (e.g., "circle")
      * - description: Description of the event category
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { onPrem } = options;
+      const { onPrem, retry = null } = options;
 
-      const url = this.formatUrl(GET_EVENT_CATEGORIES_URL, onPrem);
+      const url = formatUrl(GET_EVENT_CATEGORIES_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
 
       const startTime = Date.now();
-      const response = await axios.get(url, { headers });
+      const response = await this.transport.get(url, { headers, retry, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return [];
+    } finally {
+      dispose();
     }
   }
 
-  async getDetailedEvent(options: DetailedEventOptions = {}): Promise<any[]> {
+  async getDetailedEvent(options: DetailedEventOptions = {}): Promise<EventRecord[]> {
     /**
      * Retrieve detailed event data for a specified time range and event tags.
      * 
@@ -536,6 +605,9 @@ export default class EventsHandler {
      * @param options.startTime - Optional start time filter in format "YYYY-MM-DD HH:mm:ss"
      * @param options.endTime - Optional end time filter in format "YYYY-MM-DD HH:mm:ss"
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Array of detailed event data records
      * 
      * @example
@@ -578,21 +650,22 @@ export default class EventsHandler {
      * Note: The function uses pagination internally to fetch all available events.
      * Events are fetched in batches of 1000 records per page until all data is retrieved.
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { eventTagsList, startTime, endTime, onPrem } = options;
+      const { eventTagsList, startTime, endTime, onPrem, retry = null } = options;
 
       // Convert start_time and end_time to iso utc timestamps
-      const startTimeIso = this.isoUtcTime(startTime);
-      const endTimeIso = this.isoUtcTime(endTime);
+      const startTimeIso = toIsoUtc(startTime, this.tz);
+      const endTimeIso = toIsoUtc(endTime, this.tz);
 
       // If event_tags_list is not provided, fetch all event categories
       let finalEventTagsList = eventTagsList;
       if (!finalEventTagsList) {
-        const categories = await this.getEventCategories({ onPrem });
+        const categories = await this.getEventCategories({ onPrem, retry, signal });
         finalEventTagsList = categories.map((category: EventCategory) => category._id);
       }
 
-      const url = this.formatUrl(GET_DETAILED_EVENT_URL, onPrem);
+      const url = formatUrl(GET_DETAILED_EVENT_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
       const payload = {
         startTime: startTimeIso,
@@ -601,25 +674,24 @@ export default class EventsHandler {
       };
 
       let page = 1;
-      const rawData: any[] = [];
+      const rawData: EventRecord[] = [];
 
       // Loop to fetch data until there is no more data to fetch
       while (true) {
-        console.log(`[INFO] Fetching Data from page ${page}`);
+        this.logger.debug('[INFO] Fetching data page', { url, page });
 
         const startTimeReq = Date.now();
-        const response = await axios.put(`${url}/${page}/1000`, payload, { headers });
+        const response = await this.transport.put(`${url}/${page}/1000`, payload, { headers, retry, signal });
 
         if (this.logTime) {
-          const duration = (Date.now() - startTimeReq) / 1000;
-          console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+          this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTimeReq });
         }
 
         const responseData = response.data as ApiResponse;
 
         // Check for errors in the API response
         if (responseData.success === false) {
-          throw new Error('API response indicates failure');
+          throw new ApiError('API response indicates failure', { status: response.status, url, body: responseData });
         }
 
         const pageData = responseData.data?.data || [];
@@ -635,33 +707,34 @@ export default class EventsHandler {
       return rawData;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return [];
+    } finally {
+      dispose();
     }
   }
 
-  private async getPaginatedData(url: string, payload: any, parallel: boolean): Promise<any> {
+  private async getPaginatedData(url: string, payload: any, parallel: boolean, retry: RetryPolicyOptions | null = null, signal?: AbortSignal): Promise<any> {
     /**
      * Sends a PUT request to the specified API endpoint and processes the response.
      */
     try {
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { 
-        headers: { userID: this.userId } 
+      const response = await this.transport.put(url, payload, { 
+        headers: { userID: this.userId },
+        retry,
+        signal
       });
   
-      // DEBUG: Log the actual response structure
-      console.log('Response structure:', JSON.stringify(response.data, null, 2));
-
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       // For device data endpoint, the structure is different
@@ -678,16 +751,16 @@ export default class EventsHandler {
         }
       }
 
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
 
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
-      throw error;
+      throw this.throwOnError ? toIoSenseError(error) : error;
     }
   }
 
@@ -705,6 +778,9 @@ export default class EventsHandler {
      * @param options.dataPrecision - Number of decimal places in the result
      * @param options.periodicity - Time period for data aggregation ('hour' | 'day' | 'week' | 'month' | 'quarter' | 'year')
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including pagination and retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Object with timestamps as keys and corresponding values
      * 
      * @example
@@ -745,6 +821,7 @@ export default class EventsHandler {
      *   - 86400: Full day of activity (24 hours in seconds)
      *   - Other values: Partial duration of activity
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
       const {
         startTime,
@@ -762,24 +839,17 @@ export default class EventsHandler {
         shifts,
         shiftOperator,
         filter,
-        onPrem
+        onPrem,
+        retry = null
       } = options;
 
-      // Create a DataAccess instance to convert times to Unix timestamps
-      const dataAccess = new DataAccess({
-        userId: this.userId,
-        dataUrl: this.dataUrl,
-        dsUrl: '', // Empty for this use case
-        tz: this.tz
-      });
-
       // Convert start_time and end_time to Unix timestamps
-      const startTimeUnix = this.timeToUnix(startTime);
-      const endTimeUnix = this.timeToUnix(endTime);
+      const startTimeUnix = toUnixMs(startTime, this.tz);
+      const endTimeUnix = toUnixMs(endTime, this.tz);
 
       // Validate that the start time is before the end time
       if (endTimeUnix < startTimeUnix) {
-        throw new Error(
+        throw new ValidationError(
           `Invalid time range: start_time(${startTime}) should be before end_time(${endTime}).`
         );
       }
@@ -822,56 +892,35 @@ export default class EventsHandler {
         payload.filter = filter;
       }
 
-      const url = this.formatUrl(GET_MAINTENANCE_MODULE_DATA, onPrem);
+      const url = formatUrl(GET_MAINTENANCE_MODULE_DATA, this.dataUrl, onPrem ?? this.onPrem);
 
       const startTimeReq = Date.now();
-      const response = await axios.put(url, payload);
+      const response = await this.transport.put(url, payload, { retry, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTimeReq) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTimeReq });
       }
 
       if (response.data.errors) {
-        throw new Error('API response contains errors');
+        throw new ApiError('API response contains errors', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return {};
+    } finally {
+      dispose();
     }
   }
 
-  private timeToUnix(time: string | number | Date | null = null): number {
-    /**
-     * Convert time to Unix timestamp in milliseconds
-     */
-    if (time === null || time === undefined) {
-      return Date.now();
-    }
-
-    if (typeof time === 'number') {
-      return time;
-    }
-
-    if (typeof time === 'string') {
-      return new Date(time).getTime();
-    }
-
-    if (time instanceof Date) {
-      return time.getTime();
-    }
-
-    throw new Error(`Invalid time format: ${time}`);
-  }
-
   /**
    * Fetch device data from the API with optional filters for time range and device list.
    *
@@ -932,11 +981,12 @@ export default class EventsHandler {
    * - data: Object with device data fields (D0, D1, D2, ...), including status, times, and other metrics
    *   - fromVMS: boolean flag
    */
-  async getDeviceData(options: DeviceDataOptions = {}): Promise<any[]> {
+  async getDeviceData(options: DeviceDataOptions = {}): Promise<DeviceRow[]> {
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { devices, n = 5000, startTime, endTime, onPrem } = options;
+      const { devices, n = 5000, startTime, endTime, onPrem, retry = null } = options;
 
-      const url = this.formatUrl(GET_DEVICE_DATA, onPrem);
+      const url = formatUrl(GET_DEVICE_DATA, this.dataUrl, onPrem ?? this.onPrem);
       const payload: any = {
         devices,
         page: 1,
@@ -950,12 +1000,15 @@ export default class EventsHandler {
       if (endTime) {
         payload.endTime = endTime;
       }
-      const data = await this.getPaginatedData(url, payload, false);
+      const data = await this.getPaginatedData(url, payload, false, retry, signal);
       return data;
 
     } catch (error: any) {
-      console.error(`[EXCEPTION] ${error.message || error}`);
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
+      this.logger.error(`[EXCEPTION] ${error.message || error}`);
       return [];
+    } finally {
+      dispose();
     }
   }
 
@@ -1026,10 +1079,11 @@ export default class EventsHandler {
    *   - fromVMS: boolean flag
    */
   async getSensorRows(options: SensorRowsOptions): Promise<any[]> {
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { deviceId, sensor, value, endTime, startTime, alias = false, onPrem } = options;
+      const { deviceId, sensor, value, endTime, startTime, alias = false, onPrem, retry = null } = options;
   
-      const url = this.formatUrl(GET_SENSOR_ROWS, onPrem);
+      const url = formatUrl(GET_SENSOR_ROWS, this.dataUrl, onPrem ?? this.onPrem);
       
       // Match Python payload structure exactly
       const params: any = {
@@ -1049,14 +1103,15 @@ export default class EventsHandler {
   
       // GET request logic (matching Python's requests.get)
       const requestStartTime = Date.now();
-      const response = await axios.get(url, { 
+      const response = await this.transport.get(url, { 
         params: params,  // Send as query parameters for GET
-        headers: { userID: this.userId } 
+        headers: { userID: this.userId },
+        retry,
+        signal
       });
   
       if (this.logTime) {
-        const duration = (Date.now() - requestStartTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - requestStartTime });
       }
   
       const responseData = response.data;
@@ -1064,17 +1119,19 @@ export default class EventsHandler {
         return responseData.data;  // Python expects response.data
       }
   
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
   
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
-      console.error(`[EXCEPTION] ${error.message || error}`);
       return [];
+    } finally {
+      dispose();
     }
   }
 
@@ -1126,30 +1183,30 @@ export default class EventsHandler {
      *     - customVariable: The formula for calculating the processed reading
      */
     try {
-      const url = this.formatUrl(GET_DEVICE_METADATA_MONGO_URL, onPrem);
+      const url = formatUrl(GET_DEVICE_METADATA_MONGO_URL, this.dataUrl, onPrem ?? this.onPrem);
 
       const startTime = Date.now();
-      const response = await axios.get(`${url}/${this.userId}`, {
+      const response = await this.transport.get(`${url}/${this.userId}`, {
         params: { devID: deviceId }
       });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       if (!response.data.data) {
-        throw new Error('Invalid response format');
+        throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
       }
 
       return response.data.data;
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return {};
     }
@@ -1,10 +1,15 @@
-import axios, { AxiosResponse } from 'axios';
+import axios from 'axios';
 import {
   GET_MONGO_DATA,
   CREATE_MONGO_ROWS_URL,
-  Protocol,
   VERSION
 } from '../../utils/constants.js';
+import { ApiError, toIoSenseError } from '../../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../../utils/logger.js';
+import { RetryPolicy, RetryPolicyOptions, WRITE_RETRY_OPTIONS } from '../../utils/retry.js';
+import { createAbortScope, isAbortError } from '../../utils/abort.js';
+import { formatZoned, toUnixMs } from '../../utils/time.js';
+import { HttpTransport, HttpTransportOptions, createTransport, errorMessage, formatUrl } from '../../utils/transport.js';
 
 // Type definitions for MachineTimeline
 export interface MachineTimelineConfig {
@@ -13,19 +18,29 @@ export interface MachineTimelineConfig {
   onPrem?: boolean;
   tz?: string;
   logTime?: boolean;
+  throwOnError?: boolean;
+  logger?: Logger | LogLevel;
+  transport?: HttpTransport | HttpTransportOptions;
+  retry?: RetryPolicy | RetryPolicyOptions;
 }
 
 export interface MongoDataOptions {
   devID: string;
   limit?: number;
-  startTime?: string;
-  endTime?: string;
+  startTime?: string | number | Date;
+  endTime?: string | number | Date;
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export interface CreateMongoRowsOptions {
   data: any; // Dynamic JSON data provided by end users
   onPrem?: boolean;
+  retry?: RetryPolicyOptions | null;
+  signal?: AbortSignal;
+  timeoutMs?: number;
 }
 
 export default class MachineTimeline {
@@ -34,6 +49,9 @@ export default class MachineTimeline {
   private onPrem: boolean;
   private tz: string;
   private logTime: boolean;
+  private throwOnError: boolean;
+  private logger: Logger;
+  private transport: HttpTransport;
   public readonly version: string = VERSION;
 
   constructor({
@@ -41,7 +59,11 @@ export default class MachineTimeline {
     dataUrl,
     onPrem = false,
     tz = 'UTC',
-    logTime = false
+    logTime = false,
+    throwOnError = false,
+    logger = 'info',
+    transport,
+    retry
   }: MachineTimelineConfig) {
     /**
      * A class to handle machine timeline and MongoDB data operations.
@@ -51,129 +73,34 @@ export default class MachineTimeline {
      * @param onPrem - A flag indicating whether to use the on-premises server. If true, the on-premises server is used; otherwise, the cloud server is used
      * @param tz - The timezone to use for time-related operations. If not provided, defaults to UTC
      * @param logTime - Whether to log API response times
+     * @param throwOnError - Throw typed errors (ApiError, ValidationError, ...) instead of logging them and
+     *   returning an empty result. Defaults to false
+     * @param logger - Logger instance or a level for the console logger; 'silent' disables logging. Defaults to 'info'
+     * @param transport - HttpTransport shared with other handlers, or options for a new one (axios instance, headers, timeout, agents)
+     * @param retry - Retry policy for every request (maxAttempts, baseDelayMs, maxDelayMs, jitter, retryable statuses/errors, respectRetryAfter, maxRetryAfterMs). Methods accept `retry` overrides per call.
+     *   Defaults to a single attempt: these endpoints were never retried, so a failing call errors immediately
      */
     this.userId = userId;
     this.dataUrl = dataUrl;
     this.onPrem = onPrem;
     this.tz = tz;
     this.logTime = logTime;
+    this.throwOnError = throwOnError;
+    this.logger = createLogger(logger);
+    // Timeline requests are sent once unless a retry policy is configured
+    this.transport = createTransport(transport).withRetry(retry ?? { maxAttempts: 1 }, this.logger);
   }
 
-  private errorMessage(response: AxiosResponse | undefined, url: string): string {
-    if (!response) {
-      return `\n[URL] ${url}\n[EXCEPTION] No response received`;
-    }
-    return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers.server || 'Unknown Server'}\n[RESPONSE] ${response.data}`;
-  }
-
-  private formatUrl(template: string, onPrem?: boolean): string {
-    const protocol = (onPrem ?? this.onPrem) ? Protocol.HTTP : Protocol.HTTPS;
-    return template.replace('{protocol}', protocol).replace('{data_url}', this.dataUrl);
-  }
-
-  private convertToIST(dateInput: string | Date | null, userTimezone: string = this.tz): string {
+  private convertToIST(dateInput: string | number | Date | null, userTimezone: string = this.tz): string {
     /**
      * Converts a date/time from user's timezone to IST (Asia/Kolkata) format required by the API.
      * 
-     * @param dateInput - Date string, Date object, or null (uses current time)
+     * @param dateInput - Date string, Unix timestamp, Date object, or null (uses current time)
      * @param userTimezone - The timezone of the input date (defaults to instance timezone)
      * @returns Formatted date string in IST timezone (YYYY-MM-DD HH:mm:ss)
+     * @throws ValidationError if the date cannot be parsed
      */
-    try {
-      let inputDate: Date;
-
-      if (dateInput === null || dateInput === undefined) {
-        inputDate = new Date();
-      } else if (typeof dateInput === 'string') {
-        // Parse the string date assuming it's in the user's timezone
-        inputDate = new Date(dateInput);
-      } else {
-        inputDate = dateInput;
-      }
-
-      // If the date is invalid, throw an error
-      if (isNaN(inputDate.getTime())) {
-        throw new Error(`Invalid date format: ${dateInput}`);
-      }
-
-      // Convert to IST using Intl.DateTimeFormat
-      const istOptions: Intl.DateTimeFormatOptions = {
-        timeZone: 'Asia/Kolkata',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      };
-
-      // If input timezone is not UTC and not IST, we need to handle it properly
-      if (userTimezone !== 'UTC' && userTimezone !== 'Asia/Kolkata' && typeof dateInput === 'string') {
-        // Create a date object considering the user's timezone
-        const userOptions: Intl.DateTimeFormatOptions = {
-          timeZone: userTimezone,
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-          hour12: false
-        };
-        
-        // Parse the date string as if it's in the user's timezone
-        const dateParts = dateInput.match(/(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2}):(\d{2})/);
-        if (dateParts) {
-          const [, year, month, day, hour, minute, second] = dateParts;
-          
-          // Create a date object in the user's timezone
-          const userDate = new Date();
-          userDate.setFullYear(parseInt(year), parseInt(month) - 1, parseInt(day));
-          userDate.setHours(parseInt(hour), parseInt(minute), parseInt(second), 0);
-          
-          // Get the offset difference between user timezone and UTC
-          const userOffset = this.getTimezoneOffset(userTimezone, userDate);
-          const utcTime = userDate.getTime() - (userOffset * 60000);
-          inputDate = new Date(utcTime);
-        }
-      }
-
-      // Format the date in IST
-      const formatter = new Intl.DateTimeFormat('sv-SE', istOptions);
-      const formattedDate = formatter.format(inputDate);
-      
-      // Convert from ISO format (YYYY-MM-DD HH:mm:ss) to required format
-      return formattedDate.replace('T', ' ');
-
-    } catch (error: any) {
-      console.error(`[TIMEZONE CONVERSION ERROR] ${error.message}`);
-      // Fallback: return current time in IST format
-      const now = new Date();
-      return now.toLocaleString('sv-SE', { 
-        timeZone: 'Asia/Kolkata',
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit'
-      }).replace('T', ' ');
-    }
-  }
-
-  private getTimezoneOffset(timezone: string, date: Date): number {
-    /**
-     * Get timezone offset in minutes for a given timezone and date
-     */
-    try {
-      const utcDate = new Date(date.toLocaleString('sv-SE', { timeZone: 'UTC' }));
-      const timezoneDate = new Date(date.toLocaleString('sv-SE', { timeZone: timezone }));
-      return (timezoneDate.getTime() - utcDate.getTime()) / (1000 * 60);
-    } catch (error) {
-      console.warn(`[TIMEZONE OFFSET WARNING] Could not calculate offset for ${timezone}, using 0`);
-      return 0;
-    }
+    return formatZoned(toUnixMs(dateInput, userTimezone), 'Asia/Kolkata');
   }
 
   private processDataForInsertion(data: any): any {
@@ -196,9 +123,7 @@ export default class MachineTimeline {
         const originalD0 = processedRow.data.D0;
         processedRow.data.D0 = this.convertToIST(originalD0, this.tz);
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] D0: ${originalD0} (${this.tz}) -> ${processedRow.data.D0} (IST)`);
-        }
+        this.logger.debug(`[TIMEZONE CONVERSION] D0: ${originalD0} (${this.tz}) -> ${processedRow.data.D0} (IST)`);
       }
 
       // Convert any other timestamp fields that might be in the data
@@ -209,9 +134,7 @@ export default class MachineTimeline {
           const originalValue = value;
           processedRow.data[key] = this.convertToIST(originalValue, this.tz);
           
-          if (this.logTime) {
-            console.log(`[TIMEZONE CONVERSION] ${key}: ${originalValue} (${this.tz}) -> ${processedRow.data[key]} (IST)`);
-          }
+          this.logger.debug(`[TIMEZONE CONVERSION] ${key}: ${originalValue} (${this.tz}) -> ${processedRow.data[key]} (IST)`);
         }
       });
 
@@ -221,19 +144,20 @@ export default class MachineTimeline {
     return processedData;
   }
 
-  private async getPaginatedData(url: string, payload: any, parallel: boolean): Promise<any> {
+  private async getPaginatedData(url: string, payload: any, parallel: boolean, retry: RetryPolicyOptions | null = null, signal?: AbortSignal): Promise<any> {
     /**
      * Sends a PUT request to the specified API endpoint and processes the response.
      */
     try {
       const startTime = Date.now();
-      const response = await axios.put(url, payload, { 
-        headers: { userID: this.userId } 
+      const response = await this.transport.put(url, payload, { 
+        headers: { userID: this.userId },
+        retry,
+        signal
       });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       const data = response.data.data;
@@ -242,16 +166,16 @@ export default class MachineTimeline {
         return parallel ? (data.rows || {}) : data;
       }
 
-      throw new Error('Invalid response format');
+      throw new ApiError('Invalid response format', { status: response.status, url, body: response.data });
 
     } catch (error: any) {
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
-      throw error;
+      throw this.throwOnError ? toIoSenseError(error) : error;
     }
   }
 
@@ -267,6 +191,9 @@ export default class MachineTimeline {
      * @param options.startTime - Optional start time filter in format "YYYY-MM-DD HH:mm:ss" (in user's timezone)
      * @param options.endTime - Optional end time filter in format "YYYY-MM-DD HH:mm:ss" (in user's timezone)
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call, e.g. `{ maxAttempts: 3 }`
+     * @param options.signal - AbortSignal that cancels the call, including retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Array of data rows for the specified device
      * 
      * @example
@@ -302,10 +229,11 @@ export default class MachineTimeline {
      * // }]
      * ```
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { devID, limit, startTime, endTime, onPrem } = options;
+      const { devID, limit, startTime, endTime, onPrem, retry = null } = options;
 
-      const url = this.formatUrl(GET_MONGO_DATA, onPrem);
+      const url = formatUrl(GET_MONGO_DATA, this.dataUrl, onPrem ?? this.onPrem);
       
       // Convert time filters to IST before sending to API
       const payload: any = {
@@ -317,25 +245,24 @@ export default class MachineTimeline {
         const istStartTime = this.convertToIST(startTime, this.tz);
         payload.startTime = istStartTime;
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] startTime: ${startTime} (${this.tz}) -> ${istStartTime} (IST)`);
-        }
+        this.logger.debug(`[TIMEZONE CONVERSION] startTime: ${startTime} (${this.tz}) -> ${istStartTime} (IST)`);
       }
 
       if (endTime) {
         const istEndTime = this.convertToIST(endTime, this.tz);
         payload.endTime = istEndTime;
         
-        if (this.logTime) {
-          console.log(`[TIMEZONE CONVERSION] endTime: ${endTime} (${this.tz}) -> ${istEndTime} (IST)`);
-        }
+        this.logger.debug(`[TIMEZONE CONVERSION] endTime: ${endTime} (${this.tz}) -> ${istEndTime} (IST)`);
       }
 
-      return await this.getPaginatedData(url, payload, false);
+      return await this.getPaginatedData(url, payload, false, retry, signal);
 
     } catch (error: any) {
-      console.error(`[EXCEPTION] ${error.message || error}`);
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
+      this.logger.error(`[EXCEPTION] ${error.message || error}`);
       return [];
+    } finally {
+      dispose();
     }
   }
 
@@ -348,6 +275,10 @@ export default class MachineTimeline {
      * 
      * @param options.data - The data object containing rows to be created
      * @param options.onPrem - Optional flag for on-premises server usage
+     * @param options.retry - Retry policy overrides for this call. Only failures that never reached the server
+     *   are retried (WRITE_RETRY_OPTIONS); list `retryableStatuses` or `retryableErrors` to retry timeouts or 5xx
+     * @param options.signal - AbortSignal that cancels the call, including retry waits
+     * @param options.timeoutMs - Deadline for the whole call in milliseconds; exceeding it throws a TimeoutError
      * @returns Object indicating success status
      * 
      * @example
@@ -382,33 +313,37 @@ export default class MachineTimeline {
      * // Returns: { success: true }
      * ```
      */
+    const { signal, dispose } = createAbortScope(options);
     try {
-      const { data, onPrem } = options;
+      const { data, onPrem, retry = null } = options;
 
       // Process data to convert timestamps to IST
       const processedData = this.processDataForInsertion(data);
 
-      const url = this.formatUrl(CREATE_MONGO_ROWS_URL, onPrem);
+      const url = formatUrl(CREATE_MONGO_ROWS_URL, this.dataUrl, onPrem ?? this.onPrem);
       const headers = { userID: this.userId };
 
       const startTime = Date.now();
-      const response = await axios.put(url, processedData, { headers });
+      // Inserting twice duplicates rows, so only failures that never reached the server are retried
+      const response = await this.transport.put(url, processedData, { headers, retry: { ...WRITE_RETRY_OPTIONS, ...retry }, signal });
 
       if (this.logTime) {
-        const duration = (Date.now() - startTime) / 1000;
-        console.log(`[NETWORK] API ${url} response time: ${duration.toFixed(4)} seconds`);
+        this.logger.info('[NETWORK] API response time', { url, durationMs: Date.now() - startTime });
       }
 
       return { success: response.data.success || false };
 
     } catch (error: any) {
+      if (this.throwOnError || isAbortError(error)) throw toIoSenseError(error);
       if (axios.isAxiosError(error)) {
-        const errorMessage = this.errorMessage(error.response, error.config?.url || 'unknown');
-        console.error(`[EXCEPTION] ${error.name}: ${errorMessage}`);
+        const details = errorMessage(error.response, error.config?.url || 'unknown');
+        this.logger.error(`[EXCEPTION] ${error.name}: ${details}`);
       } else {
-        console.error(`[EXCEPTION] ${error.message || error}`);
+        this.logger.error(`[EXCEPTION] ${error.message || error}`);
       }
       return { success: false };
+    } finally {
+      dispose();
     }
   }
 }
@@ -1,11 +1,15 @@
 import mqtt from 'mqtt';
 import { Buffer } from 'buffer';
+import { IoSenseError } from '../../utils/errors.js';
+import { Logger, LogLevel, createLogger } from '../../utils/logger.js';
 
 export interface MqttConfig {
   broker: string;
   port: number;
   username: string;
   password: string;
+  /** Logger instance or a level for the console logger; 'silent' disables logging. Defaults to 'info' */
+  logger?: Logger | LogLevel;
 }
 
 export interface DevicePayload {
@@ -21,9 +25,11 @@ export class MqttConnector {
   private client: mqtt.MqttClient | null = null;
   private config: MqttConfig;
   private isConnected: boolean = false;
+  private logger: Logger;
 
   constructor(config: MqttConfig) {
     this.config = config;
+    this.logger = createLogger(config.logger);
   }
 
   /**
@@ -42,18 +48,18 @@ export class MqttConnector {
 
       this.client.on('connect', () => {
         this.isConnected = true;
-        console.log(`Connected to MQTT broker at ${url}`);
+        this.logger.info('Connected to MQTT broker', { url });
         resolve();
       });
 
       this.client.on('error', (error: Error) => {
-        console.error('MQTT connection error:', error);
+        this.logger.error(`MQTT connection error: ${error.message}`, { url });
         reject(error);
       });
 
       this.client.on('close', () => {
         this.isConnected = false;
-        console.log('MQTT connection closed');
+        this.logger.info('MQTT connection closed', { url });
       });
     });
   }
@@ -63,7 +69,7 @@ export class MqttConnector {
    */
   async publish(topic: string, payload: any): Promise<void> {
     if (!this.client || !this.isConnected) {
-      throw new Error('MQTT client is not connected. Call connect() first.');
+      throw new IoSenseError('MQTT client is not connected. Call connect() first.');
     }
 
     return new Promise((resolve, reject) => {
@@ -71,10 +77,10 @@ export class MqttConnector {
       
       this.client!.publish(topic, message, { qos: 1 }, (error?: Error) => {
         if (error) {
-          console.error('Failed to publish message:', error);
+          this.logger.error(`Failed to publish message: ${error.message}`, { topic });
           reject(error);
         } else {
-          console.log(`Message published to topic: ${topic}`);
+          this.logger.debug('Message published', { topic });
           resolve();
         }
       });
@@ -103,16 +109,16 @@ export class MqttConnector {
    */
   async subscribe(topic: string, callback: (topic: string, message: any) => void): Promise<void> {
     if (!this.client || !this.isConnected) {
-      throw new Error('MQTT client is not connected. Call connect() first.');
+      throw new IoSenseError('MQTT client is not connected. Call connect() first.');
     }
 
     return new Promise((resolve, reject) => {
       this.client!.subscribe(topic, { qos: 1 }, (error: Error | null) => {
         if (error) {
-          console.error('Failed to subscribe to topic:', error);
+          this.logger.error(`Failed to subscribe to topic: ${error.message}`, { topic });
           reject(error);
         } else {
-          console.log(`Subscribed to topic: ${topic}`);
+          this.logger.info('Subscribed to topic', { topic });
           resolve();
         }
       });
@@ -163,7 +169,7 @@ export class MqttConnector {
       return new Promise((resolve) => {
         this.client!.end(false, {}, () => {
           this.isConnected = false;
-          console.log('MQTT connection closed successfully');
+          this.logger.info('MQTT connection closed successfully');
           resolve();
         });
       });
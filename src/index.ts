@@ -1,32 +1,149 @@
 // Main entry point for connector-userid-ts module
+export { default as IoSenseClient } from './connectors/IoSenseClient.js';
 export { default as EventsHandler } from './connectors/data/EventsHandler.js';
 export { default as MachineTimeline } from './connectors/data/MachineTimeline.js';
 export { MqttConnector } from './connectors/pubsub/mqttHandler.js';
 export { default as BruceHandler } from './connectors/data/BruceHandler.js';
 export { default as DataAccess } from './connectors/data/DataAccess.js';
+export { CalibrationEngine } from './utils/calibration.js';
+export { UNITS, resolveUnit, getUnitConverter, convertUnit } from './utils/units.js';
+export { MemoryCacheStore } from './utils/cache.js';
+export { ConsoleLogger, silentLogger, createLogger } from './utils/logger.js';
+export { HttpTransport, createTransport, formatUrl, errorMessage } from './utils/transport.js';
+export { RetryPolicy, createRetryPolicy, WRITE_RETRY_OPTIONS } from './utils/retry.js';
+export { createAbortScope, isAbortError } from './utils/abort.js';
+export { toUnixMs, toIsoUtc, formatZoned, formatTime, zonedParts, zonedOffset, zonedToUnix, isValidTimezone } from './utils/time.js';
+export { toRows, toCsv, toNdjson, toColumnar, writeExport } from './utils/export.js';
+export { RunningStats, P2Quantile, percentileOf, median, DEFAULT_SUMMARY_STATS } from './utils/stats.js';
+export {
+  IoSenseError,
+  ValidationError,
+  DeviceNotFoundError,
+  ApiError,
+  AuthError,
+  RetryExhaustedError,
+  AbortError,
+  TimeoutError,
+  toIoSenseError
+} from './utils/errors.js';
 
 // Export all types and interfaces
 export type {
   DataAccessConfig,
+  DataAccessCacheConfig,
   ApiResponse,
   DeviceDetail,
   SensorInfo,
   DeviceMetadata,
   UserInfo,
   SensorDataPoint,
+  PivotedRow,
+  ResultTime,
+  QueryRow,
   RawSensorData,
   CursorInfo,
   GetFirstDpOptions,
   GetDpOptions,
   CleanedTableOptions,
+  ResampleInterval,
+  ResampleAggregate,
+  FillStrategy,
+  TableFormat,
+  UnitsOption,
   DataQueryOptions,
+  StreamDataQueryOptions,
+  DeviceQuery,
+  DataQueryManyOptions,
+  SummarizeOptions,
+  SensorSummary,
+  DataQualityOptions,
+  DataGap,
+  SensorQualityReport,
+  DeviceQualityReport,
+  OperationFilterOperator,
+  OperationDataFilter,
+  FilteredOperationDataOptions,
+  OperationDataRow,
+  OperationDataResponse,
   InfluxDbOptions,
   CursorData,
   GetLoadEntitiesOptions,
   LoadEntity,
-  LoadEntitiesResponse
+  LoadEntitiesResponse,
+  ConsumptionInterval,
+  ConsumptionOptions,
+  StartEndDp,
+  ConsumptionRow,
+  ClusterOperator,
+  ClusterAggregationOptions,
+  ClusterDataPoint,
+  ClusterAggregation,
+  CalibrationReportOptions,
+  TriggerOptions,
+  TriggerResponse
 } from './connectors/data/DataAccess.js';
 
+export type {
+  CalibrationKind,
+  CalibrationParam,
+  CalibrationContext,
+  CalibrationFunction,
+  CalibrationBounds,
+  ResolvedCalibration,
+  CalibrationReportEntry
+} from './utils/calibration.js';
+
+export type {
+  UnitCategory,
+  UnitDefinition
+} from './utils/units.js';
+
+export type {
+  CacheStore,
+  MemoryCacheOptions
+} from './utils/cache.js';
+
+export type {
+  Logger,
+  LogLevel,
+  LogFields
+} from './utils/logger.js';
+
+export type {
+  HttpTransportOptions,
+  RequestFunction,
+  TransportRequestConfig
+} from './utils/transport.js';
+
+export type {
+  RetryPolicyOptions,
+  RetryContext
+} from './utils/retry.js';
+
+export type {
+  AbortOptions,
+  AbortScope
+} from './utils/abort.js';
+
+export type {
+  TimeInput,
+  ZonedParts,
+  TimeFormat
+} from './utils/time.js';
+
+export type {
+  ExportFormat,
+  ExportSource,
+  ExportOptions,
+  WriteExportOptions,
+  ColumnField,
+  ColumnarTable
+} from './utils/export.js';
+
+export type { SummaryStat } from './utils/stats.js';
+
+export type { IoSenseClientConfig } from './connectors/IoSenseClient.js';
+
 export type {
   EventsHandlerConfig,
   PublishEventOptions,
@@ -36,7 +153,10 @@ export type {
   MaintenanceModuleDataOptions,
   DeviceDataOptions,
   SensorRowsOptions,
-  EventCategory
+  EventCategoriesOptions,
+  EventCategory,
+  EventRecord,
+  DeviceRow
 } from './connectors/data/EventsHandler.js';
 
 export type {
@@ -0,0 +1,113 @@
+import { AbortError, TimeoutError } from './errors.js';
+
+export interface AbortOptions {
+  /** Cancels the call: in-flight requests, pagination and retry waits stop immediately */
+  signal?: AbortSignal;
+  /** Deadline for the whole call in milliseconds, including pagination and retries */
+  timeoutMs?: number;
+}
+
+export interface AbortScope {
+  /** Aborts when the caller's signal does or the deadline passes; undefined when neither is set */
+  signal: AbortSignal | undefined;
+  /** Clears the deadline timer and detaches from the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combines a caller's signal and `timeoutMs` deadline into the signal a method passes to its requests.
+ * Call `dispose()` once the method finishes so the timer does not keep the process alive.
+ * @param options - The method's `signal` and `timeoutMs` options
+ * @returns The scope's signal and its cleanup
+ */
+export function createAbortScope({ signal, timeoutMs }: AbortOptions = {}): AbortScope {
+  if (!timeoutMs || timeoutMs <= 0) {
+    return { signal, dispose: (): void => {} };
+  }
+
+  const controller = new AbortController();
+  const onAbort = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+  const timer = setTimeout(() => controller.abort(new TimeoutError(timeoutMs)), timeoutMs);
+
+  return {
+    signal: controller.signal,
+    dispose: (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+}
+
+/**
+ * @param reason - An abort signal's reason
+ * @returns The reason itself if it is an AbortError (e.g. a TimeoutError), otherwise an AbortError wrapping it
+ */
+export function toAbortError(reason: unknown): AbortError {
+  if (reason instanceof AbortError) return reason;
+  const message = reason instanceof Error && reason.message ? reason.message : undefined;
+  return new AbortError(message, reason);
+}
+
+/**
+ * @param error - A caught value
+ * @returns True if it comes from a cancelled signal: an AbortError, axios' CanceledError or a DOM AbortError
+ */
+export function isAbortError(error: unknown): boolean {
+  const err = error as any;
+  return error instanceof AbortError || err?.code === 'ERR_CANCELED' || err?.name === 'AbortError';
+}
+
+/**
+ * @param signal - Signal to check
+ * @throws AbortError (or TimeoutError) if the signal has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) throw toAbortError(signal.reason);
+}
+
+/**
+ * Settles with the promise, or rejects as soon as the signal aborts. The underlying work is
+ * not stopped, only no longer awaited; use it for calls that do not take a signal themselves.
+ * @param promise - The work to wait for
+ * @param signal - Signal that ends the wait
+ * @returns The promise's result
+ * @throws AbortError if the signal aborts first
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(toAbortError(signal.reason));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(toAbortError(signal.reason));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, (error) => reject(signal.aborted ? toAbortError(signal.reason) : error))
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * @param ms - Milliseconds to wait
+ * @param signal - Signal that cuts the wait short
+ * @throws AbortError if the signal aborts before the time is up
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(toAbortError(signal.reason));
+
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(toAbortError(signal?.reason));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,86 @@
+import { CACHE_MAX_ENTRIES, CACHE_TTL } from './constants.js';
+
+/**
+ * Storage backend for cached API responses. Implement this to share a cache between
+ * workers (e.g. on top of Redis or a file); values must survive a JSON round trip.
+ */
+export interface CacheStore {
+  get<T = unknown>(key: string): Promise<T | undefined>;
+  set<T = unknown>(key: string, value: T, ttlMs?: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Removes every entry, or only the entries whose key starts with `prefix` */
+  clear(prefix?: string): Promise<void>;
+}
+
+export interface MemoryCacheOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * In-process CacheStore with per-entry TTL and least-recently-used eviction.
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+  private maxEntries: number;
+
+  /**
+   * @param options - Cache options
+   * @param options.ttlMs - Default time to live in milliseconds. Defaults to CACHE_TTL
+   * @param options.maxEntries - Maximum number of entries before the least recently used is evicted. Defaults to CACHE_MAX_ENTRIES
+   */
+  constructor({ ttlMs = CACHE_TTL, maxEntries = CACHE_MAX_ENTRIES }: MemoryCacheOptions = {}) {
+    this.ttlMs = ttlMs;
+    this.maxEntries = Math.max(1, maxEntries);
+  }
+
+  async get<T = unknown>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry.value as T;
+  }
+
+  async set<T = unknown>(key: string, value: T, ttlMs: number = this.ttlMs): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async clear(prefix?: string): Promise<void> {
+    if (prefix === undefined) {
+      this.entries.clear();
+      return;
+    }
+    for (const key of [...this.entries.keys()]) {
+      if (key.startsWith(prefix)) this.entries.delete(key);
+    }
+  }
+
+  /** Number of entries currently held, including expired ones not yet evicted */
+  get size(): number {
+    return this.entries.size;
+  }
+}
@@ -0,0 +1,226 @@
+export type CalibrationKind = 'none' | 'linear' | 'polynomial' | 'lookup' | 'custom';
+
+export interface CalibrationParam {
+  paramName: string;
+  paramValue: unknown;
+}
+
+export interface CalibrationContext {
+  deviceId?: string;
+  devTypeID?: string;
+  sensor: string;
+}
+
+/**
+ * Custom calibration registered for a device type. Receives the raw value and the
+ * sensor's params flattened into a name → value map.
+ */
+export type CalibrationFunction = (
+  value: number,
+  params: Record<string, unknown>,
+  context: CalibrationContext
+) => number;
+
+export interface CalibrationBounds {
+  min: number | null;
+  max: number | null;
+}
+
+export interface ResolvedCalibration {
+  kind: CalibrationKind;
+  apply: (value: number) => number;
+  bounds: CalibrationBounds;
+  details: Record<string, unknown>;
+}
+
+export interface CalibrationReportEntry {
+  sensor: string;
+  kind: CalibrationKind;
+  details: Record<string, unknown>;
+  min: number | null;
+  max: number | null;
+}
+
+const identity = (value: number): number => value;
+
+/**
+ * Resolves and applies sensor calibrations from device metadata params.
+ *
+ * Supported models, in order of precedence:
+ * - custom: a function registered for the device type (optionally for one sensor)
+ * - lookup: piecewise-linear table from `lookup`/`table` (pairs of raw and calibrated values)
+ * - polynomial: coefficients from `poly`/`coefficients`, or `a0`, `a1`, ... (constant term first)
+ * - linear: `m` and `c`
+ *
+ * `min` and `max` are reported as bounds for every model; clamping is left to the caller.
+ */
+export class CalibrationEngine {
+  private customFunctions = new Map<string, CalibrationFunction>();
+
+  /**
+   * Registers a custom calibration for a device type
+   * @param devTypeID - Device type the calibration applies to
+   * @param fn - Function mapping a raw value to a calibrated value
+   * @param sensor - Optional sensor ID; when omitted the function applies to every sensor of the type
+   * @returns The engine, for chaining
+   */
+  register(devTypeID: string, fn: CalibrationFunction, sensor?: string): this {
+    this.customFunctions.set(this.customKey(devTypeID, sensor), fn);
+    return this;
+  }
+
+  /**
+   * Removes a custom calibration registered with `register`
+   * @param devTypeID - Device type the calibration was registered for
+   * @param sensor - Sensor ID it was registered for, if any
+   * @returns True if a calibration was removed
+   */
+  unregister(devTypeID: string, sensor?: string): boolean {
+    return this.customFunctions.delete(this.customKey(devTypeID, sensor));
+  }
+
+  /**
+   * Resolves the calibration for one sensor
+   * @param params - The sensor's entries from `metadata.params`
+   * @param context - Device and sensor the params belong to
+   * @returns The calibration kind, the function to apply and the min/max bounds
+   */
+  resolve(params: CalibrationParam[] | undefined, context: CalibrationContext): ResolvedCalibration {
+    const values = this.flattenParams(params);
+    const bounds: CalibrationBounds = {
+      min: this.toNumber(values.min),
+      max: this.toNumber(values.max),
+    };
+
+    // 1. Custom function, sensor-specific first
+    if (context.devTypeID) {
+      const fn = this.customFunctions.get(this.customKey(context.devTypeID, context.sensor))
+        ?? this.customFunctions.get(this.customKey(context.devTypeID));
+      if (fn) {
+        return { kind: 'custom', apply: value => fn(value, values, context), bounds, details: { devTypeID: context.devTypeID } };
+      }
+    }
+
+    // 2. Lookup table
+    const table = this.parseTable(values.lookup ?? values.table);
+    if (table) {
+      return { kind: 'lookup', apply: value => this.interpolate(table, value), bounds, details: { points: table.length } };
+    }
+
+    // 3. Polynomial
+    const coefficients = this.parseCoefficients(values);
+    if (coefficients) {
+      // Horner's method, coefficients are in ascending order of power
+      const apply = (value: number): number =>
+        coefficients.reduceRight((acc, coefficient) => acc * value + coefficient, 0);
+      return { kind: 'polynomial', apply, bounds, details: { coefficients } };
+    }
+
+    // 4. Linear
+    if (values.m !== undefined || values.c !== undefined) {
+      const m = parseFloat(String(values.m)) || 1;
+      const c = parseFloat(String(values.c)) || 0;
+      return { kind: 'linear', apply: value => m * value + c, bounds, details: { m, c } };
+    }
+
+    return { kind: 'none', apply: identity, bounds, details: {} };
+  }
+
+  /**
+   * Clamps a value to calibration bounds
+   * @param value - Calibrated value
+   * @param bounds - Bounds returned by `resolve`
+   * @returns The clamped value
+   */
+  clamp(value: number, bounds: CalibrationBounds): number {
+    let clamped = value;
+    if (bounds.min !== null) clamped = Math.max(clamped, bounds.min);
+    if (bounds.max !== null) clamped = Math.min(clamped, bounds.max);
+    return clamped;
+  }
+
+  private customKey(devTypeID: string, sensor?: string): string {
+    return sensor ? `${devTypeID}:${sensor}` : devTypeID;
+  }
+
+  private flattenParams(params: CalibrationParam[] | undefined): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    if (Array.isArray(params)) {
+      for (const param of params) {
+        if (param && param.paramName) values[param.paramName] = param.paramValue;
+      }
+    }
+    return values;
+  }
+
+  private toNumber(value: unknown): number | null {
+    if (value === undefined || value === null || value === '') return null;
+    const parsed = parseFloat(String(value));
+    return isNaN(parsed) ? null : parsed;
+  }
+
+  /**
+   * Parses a lookup table given as an array of [raw, calibrated] pairs or {x, y} objects,
+   * a JSON string of either, or "raw:calibrated" entries separated by commas
+   */
+  private parseTable(raw: unknown): Array<[number, number]> | null {
+    if (raw === undefined || raw === null || raw === '') return null;
+
+    let entries: unknown = raw;
+    if (typeof raw === 'string') {
+      try {
+        entries = JSON.parse(raw);
+      } catch {
+        entries = raw.split(',').map(entry => entry.split(':'));
+      }
+    }
+    if (!Array.isArray(entries)) return null;
+
+    const table: Array<[number, number]> = [];
+    for (const entry of entries) {
+      const [x, y] = Array.isArray(entry) ? entry : [entry?.x, entry?.y];
+      const point: [number, number] = [parseFloat(x), parseFloat(y)];
+      if (!isNaN(point[0]) && !isNaN(point[1])) table.push(point);
+    }
+    if (table.length < 2) return null;
+    return table.sort((a, b) => a[0] - b[0]);
+  }
+
+  private parseCoefficients(values: Record<string, unknown>): number[] | null {
+    const raw = values.poly ?? values.coefficients;
+    if (raw !== undefined && raw !== null && raw !== '') {
+      const list: unknown[] = Array.isArray(raw) ? raw : String(raw).replace(/[[\]]/g, '').split(',');
+      const coefficients = list.map(value => parseFloat(String(value)));
+      return coefficients.length > 0 && coefficients.every(value => !isNaN(value)) ? coefficients : null;
+    }
+
+    const indexed = Object.keys(values)
+      .map(key => /^a(\d+)$/.exec(key))
+      .filter((match): match is RegExpExecArray => match !== null);
+    if (indexed.length === 0) return null;
+
+    const coefficients = new Array(Math.max(...indexed.map(match => parseInt(match[1], 10))) + 1).fill(0);
+    for (const match of indexed) {
+      coefficients[parseInt(match[1], 10)] = parseFloat(String(values[match[0]])) || 0;
+    }
+    return coefficients;
+  }
+
+  /**
+   * Piecewise-linear interpolation; values outside the table hold the nearest end value
+   */
+  private interpolate(table: Array<[number, number]>, value: number): number {
+    if (value <= table[0][0]) return table[0][1];
+    const last = table[table.length - 1];
+    if (value >= last[0]) return last[1];
+
+    for (let i = 1; i < table.length; i++) {
+      const [x1, y1] = table[i];
+      if (value <= x1) {
+        const [x0, y0] = table[i - 1];
+        return x1 === x0 ? y1 : y0 + ((y1 - y0) * (value - x0)) / (x1 - x0);
+      }
+    }
+    return last[1];
+  }
+}
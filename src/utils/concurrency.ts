@@ -0,0 +1,34 @@
+/**
+ * Maps items through an async function with at most `limit` calls in flight.
+ * Results are returned in the same order as the input items. Once a call rejects, the returned promise rejects
+ * with its error and no further items are started; calls already in flight are not cancelled.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent calls (values below 1 are treated as 1)
+ * @param fn - Async function applied to each item
+ * @returns Results in input order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.min(Math.max(1, Math.floor(limit) || 1), items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
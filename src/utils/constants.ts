@@ -53,6 +53,10 @@ export const CREATE_MONGO_ROWS_URL: string = '{protocol}://{data_url}/api/table/
 export const MAX_RETRIES: number = 15;
 export const RETRY_DELAY: readonly [number, number] = [2, 4] as const;
 export const CURSOR_LIMIT: number = 25000;
+export const MAX_CONCURRENT_BATCHES: number = 4;
+export const MAX_CONCURRENT_DEVICES: number = 5;
+export const CACHE_TTL: number = 5 * 60 * 1000; // milliseconds
+export const CACHE_MAX_ENTRIES: number = 1000;
 
 // Type definitions for URL template parameters
 export interface UrlTemplateParams {
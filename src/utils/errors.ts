@@ -0,0 +1,98 @@
+/**
+ * Base class for every error raised by the connectors. Handlers only throw these when
+ * created with `throwOnError: true`; otherwise they log and return an empty result.
+ */
+export class IoSenseError extends Error {
+  public readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.cause = cause;
+    Object.setPrototypeOf(this, new.target.prototype);
+  }
+}
+
+/** Invalid arguments, e.g. a reversed time range or an out-of-range count */
+export class ValidationError extends IoSenseError {}
+
+/** The device is not part of the user's account */
+export class DeviceNotFoundError extends IoSenseError {
+  public readonly deviceId: string;
+
+  constructor(deviceId: string, message: string = `Device ${deviceId} not added in account`) {
+    super(message);
+    this.deviceId = deviceId;
+  }
+}
+
+/** The server answered with a non-success status or an error payload */
+export class ApiError extends IoSenseError {
+  public readonly status?: number;
+  public readonly url: string;
+  public readonly body?: unknown;
+
+  constructor(message: string, { status, url, body, cause }: { status?: number; url: string; body?: unknown; cause?: unknown }) {
+    super(message, cause);
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+/** The server rejected the user ID (HTTP 401 or 403) */
+export class AuthError extends ApiError {}
+
+/** A request kept failing until the retry budget ran out; `cause` holds the last failure */
+export class RetryExhaustedError extends IoSenseError {
+  public readonly url: string;
+  public readonly attempts: number;
+
+  constructor(url: string, attempts: number, cause?: unknown, message: string = `Max retries reached while calling ${url}`) {
+    super(message, cause);
+    this.url = url;
+    this.attempts = attempts;
+  }
+}
+
+/** The call was cancelled through its `signal`; `cause` holds the abort reason */
+export class AbortError extends IoSenseError {
+  constructor(message: string = 'The operation was aborted', cause?: unknown) {
+    super(message, cause);
+  }
+}
+
+/** The call did not finish within its `timeoutMs` deadline */
+export class TimeoutError extends AbortError {
+  public readonly timeoutMs: number;
+
+  constructor(timeoutMs: number, message: string = `The operation timed out after ${timeoutMs}ms`) {
+    super(message);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Converts anything caught from axios or handler code into an IoSenseError.
+ * @param error - The caught value
+ * @param url - The requested URL, when the error does not carry one
+ * @returns The error itself if it already is an IoSenseError, otherwise a wrapping AbortError, AuthError, ApiError or IoSenseError
+ */
+export function toIoSenseError(error: unknown, url?: string): IoSenseError {
+  if (error instanceof IoSenseError) return error;
+
+  const err = error as any;
+  if (err?.code === 'ERR_CANCELED' || err?.name === 'AbortError') {
+    return new AbortError(err.message || undefined, error);
+  }
+  if (err?.isAxiosError || err?.response || err?.request) {
+    const status: number | undefined = err.response?.status;
+    const requestUrl: string = url ?? err.config?.url ?? '';
+    const body = err.response?.data;
+    const message = status ? `Request to ${requestUrl} failed with status ${status}` : `Request to ${requestUrl} failed: ${err.message}`;
+    const ErrorClass = status === 401 || status === 403 ? AuthError : ApiError;
+    return new ErrorClass(message, { status, url: requestUrl, body, cause: error });
+  }
+
+  return new IoSenseError(err?.message ?? String(error), error);
+}
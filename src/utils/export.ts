@@ -0,0 +1,332 @@
+import type { Writable } from 'stream';
+import { ValidationError } from './errors.js';
+import { TimeFormat, TimeInput, formatTime, toUnixMs } from './time.js';
+
+export type ExportFormat = 'csv' | 'ndjson' | 'columnar';
+
+/**
+ * Anything the handlers return as a table: an array of rows (pivoted or long), an object wrapping one
+ * (`{ results }` from `fetchInsightResults`, `{ rows }` or `{ data }`), or `dataQueryMany` results keyed by device
+ */
+export type ExportSource = object[] | object;
+
+type Row = Record<string, unknown>;
+
+export interface ExportOptions {
+  /** Columns to write, in order. Defaults to every column, in the order first seen; required to add columns mid-stream */
+  columns?: string[];
+  /** Columns holding timestamps. Defaults to ['time', 'timestamp'] */
+  timeColumns?: string[];
+  /** How CSV and NDJSON write timestamp columns. Defaults to leaving them as they are */
+  timeFormat?: TimeFormat;
+  /** Timezone for `timeFormat` and for timestamps without an offset. Defaults to 'UTC' */
+  tz?: string;
+  /** CSV field delimiter. Defaults to ',' */
+  delimiter?: string;
+  /** Write a CSV header row. Defaults to true */
+  header?: boolean;
+}
+
+export interface WriteExportOptions extends ExportOptions {
+  format: ExportFormat;
+  /** End a destination stream once the export is written. Files are always closed. Defaults to false */
+  end?: boolean;
+}
+
+export interface ColumnField {
+  name: string;
+  /** Arrow type name: 'float64', 'bool', 'utf8' or 'timestamp[ms]' (Unix milliseconds, UTC) */
+  type: 'float64' | 'bool' | 'utf8' | 'timestamp[ms]';
+  nullable: boolean;
+}
+
+/** Column-oriented table; `columns` can be passed to apache-arrow's `tableFromArrays` or a Parquet writer */
+export interface ColumnarTable {
+  schema: ColumnField[];
+  numRows: number;
+  columns: Record<string, Array<number | boolean | string | null>>;
+}
+
+const DEFAULT_TIME_COLUMNS = ['time', 'timestamp'];
+
+function isPlainObject(value: unknown): value is Row {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof Date);
+}
+
+function flattenRow(row: Row, prefix: string = '', out: Row = {}): Row {
+  for (const [key, value] of Object.entries(row)) {
+    if (isPlainObject(value)) {
+      flattenRow(value, `${prefix}${key}.`, out);
+    } else {
+      out[`${prefix}${key}`] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Normalizes a handler result into flat rows. Nested objects become dotted columns
+ * (`units.D5`, `data.D0`), and `dataQueryMany` results keyed by device gain a `device` column.
+ * @param source - Handler result
+ * @returns Flat rows
+ * @throws ValidationError if the result holds no table
+ */
+export function toRows(source: ExportSource): Row[] {
+  const wrapper = source as Row | null;
+  let rows: unknown[];
+  if (Array.isArray(source)) {
+    rows = source;
+  } else if (Array.isArray(wrapper?.results)) {
+    rows = wrapper.results;
+  } else if (Array.isArray(wrapper?.rows)) {
+    rows = wrapper.rows;
+  } else if (Array.isArray(wrapper?.data)) {
+    rows = wrapper.data;
+  } else if (isPlainObject(source) && Object.values(source).every(Array.isArray)) {
+    rows = Object.entries(source).flatMap(([device, deviceRows]) => (deviceRows as object[]).map(row => ({ device, ...row })));
+  } else {
+    throw new ValidationError('Cannot export result: expected an array of rows or an object holding one');
+  }
+  return rows.map(row => (isPlainObject(row) ? flattenRow(row) : { value: row }));
+}
+
+function columnsOf(rows: Row[]): string[] {
+  const columns = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+  return [...columns];
+}
+
+function writeTime(value: unknown, options: ExportOptions): unknown {
+  if (!options.timeFormat || value === null || value === undefined || value === '') return value;
+  return formatTime(toUnixMs(value as TimeInput, options.tz), options.timeFormat, options.tz);
+}
+
+function csvField(value: unknown, delimiter: string): string {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date
+    ? value.toISOString()
+    : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (text.includes(delimiter) || /["\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+function csvLines(rows: Row[], columns: string[], options: ExportOptions): string {
+  const { delimiter = ',', timeColumns = DEFAULT_TIME_COLUMNS } = options;
+  return rows
+    .map(row => columns
+      .map(column => csvField(timeColumns.includes(column) ? writeTime(row[column], options) : row[column], delimiter))
+      .join(delimiter))
+    .map(line => `${line}\n`)
+    .join('');
+}
+
+function csvHeader(columns: string[], options: ExportOptions): string {
+  const { delimiter = ',', header = true } = options;
+  return header ? `${columns.map(column => csvField(column, delimiter)).join(delimiter)}\n` : '';
+}
+
+function ndjsonLines(rows: Row[], columns: string[] | undefined, options: ExportOptions): string {
+  const { timeColumns = DEFAULT_TIME_COLUMNS } = options;
+  return rows
+    .map((row) => {
+      const keys = columns ?? Object.keys(row);
+      const out = Object.fromEntries(keys.map(key => [key, timeColumns.includes(key) ? writeTime(row[key], options) : row[key] ?? null]));
+      return `${JSON.stringify(out)}\n`;
+    })
+    .join('');
+}
+
+/**
+ * @param source - Handler result
+ * @param options - Columns, delimiter, header and timestamp format
+ * @returns CSV text with `\n` line endings
+ */
+export function toCsv(source: ExportSource, options: ExportOptions = {}): string {
+  const rows = toRows(source);
+  const columns = options.columns ?? columnsOf(rows);
+  return csvHeader(columns, options) + csvLines(rows, columns, options);
+}
+
+/**
+ * @param source - Handler result
+ * @param options - Columns and timestamp format
+ * @returns One JSON object per line
+ */
+export function toNdjson(source: ExportSource, options: ExportOptions = {}): string {
+  return ndjsonLines(toRows(source), options.columns, options);
+}
+
+/**
+ * Converts a result to a column-oriented table with an Arrow-compatible schema.
+ * Timestamp columns become Unix milliseconds; numbers are float64; columns mixing types,
+ * and nested arrays, are written as strings.
+ * @param source - Handler result
+ * @param options - Columns, timestamp columns and the timezone of timestamps without an offset
+ * @returns The columnar table
+ */
+export function toColumnar(source: ExportSource, options: ExportOptions = {}): ColumnarTable {
+  const rows = toRows(source);
+  const { timeColumns = DEFAULT_TIME_COLUMNS, tz } = options;
+  const names = options.columns ?? columnsOf(rows);
+
+  const schema: ColumnField[] = [];
+  const columns: ColumnarTable['columns'] = {};
+  for (const name of names) {
+    // Empty CSV-style cells count as nulls
+    const values = rows.map(row => (row[name] === '' ? null : row[name] ?? null));
+    const present = values.filter(value => value !== null);
+    const nullable = present.length < values.length;
+
+    if (timeColumns.includes(name)) {
+      schema.push({ name, type: 'timestamp[ms]', nullable });
+      columns[name] = values.map(value => (value === null ? null : toUnixMs(value as TimeInput, tz)));
+    } else if (present.length > 0 && present.every(value => typeof value === 'number')) {
+      schema.push({ name, type: 'float64', nullable });
+      columns[name] = values as Array<number | null>;
+    } else if (present.length > 0 && present.every(value => typeof value === 'boolean')) {
+      schema.push({ name, type: 'bool', nullable });
+      columns[name] = values as Array<boolean | null>;
+    } else {
+      schema.push({ name, type: 'utf8', nullable });
+      columns[name] = values.map((value) => {
+        if (value === null) return null;
+        if (value instanceof Date) return value.toISOString();
+        return typeof value === 'object' ? JSON.stringify(value) : String(value);
+      });
+    }
+  }
+
+  return { schema, numRows: rows.length, columns };
+}
+
+function write(stream: Writable, chunk: string): Promise<void> {
+  if (stream.errored) return Promise.reject(stream.errored);
+  if (!chunk || stream.write(chunk)) return Promise.resolve();
+  // Wait for the buffer to drain so large exports do not pile up in memory
+  return new Promise<void>((resolve, reject) => {
+    const onDrain = (): void => {
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error): void => {
+      stream.off('drain', onDrain);
+      reject(error);
+    };
+    stream.once('drain', onDrain);
+    stream.once('error', onError);
+  });
+}
+
+function finish(stream: Writable): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    stream.once('error', reject);
+    stream.end(() => resolve());
+  });
+}
+
+function opened(stream: Writable): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onOpen = (): void => {
+      stream.off('error', onError);
+      resolve();
+    };
+    const onError = (error: Error): void => {
+      stream.off('open', onOpen);
+      reject(error);
+    };
+    stream.once('open', onOpen);
+    stream.once('error', onError);
+  });
+}
+
+function isAsyncIterable(source: unknown): source is AsyncIterable<ExportSource> {
+  return typeof (source as Partial<AsyncIterable<ExportSource>> | null)?.[Symbol.asyncIterator] === 'function';
+}
+
+/**
+ * Writes a result, or a stream of result chunks such as `streamDataQuery`, to a file or a writable stream.
+ * Chunks are written as they arrive: CSV writes its header once, NDJSON one line per row, and the columnar
+ * format one line per chunk, each a JSON record batch (`ColumnarTable`). Without `columns`, CSV takes its
+ * columns from the first chunk with rows and rejects later chunks that add columns. Node.js only.
+ * @param source - Handler result, or an async iterable of them
+ * @param destination - File path, or a writable stream
+ * @param options - Output format plus the `toCsv`, `toNdjson` or `toColumnar` options
+ * @param options.end - End the destination stream when done. Defaults to false; files are always closed
+ * @returns Number of rows written
+ * @throws ValidationError if a chunk holds no table or, for CSV without `columns`, adds columns to the header;
+ *   the stream's error if the file cannot be opened or writing fails
+ */
+export async function writeExport(
+  source: ExportSource | AsyncIterable<ExportSource>,
+  destination: string | Writable,
+  options: WriteExportOptions
+): Promise<number> {
+  const { format, end = false } = options;
+  if (!['csv', 'ndjson', 'columnar'].includes(format)) {
+    throw new ValidationError(`Unknown export format: ${format}`);
+  }
+
+  let stream: Writable;
+  if (typeof destination === 'string') {
+    // fs is loaded on demand so browser bundles never pull it in
+    const { createWriteStream } = await import('fs');
+    stream = createWriteStream(destination);
+  } else {
+    stream = destination;
+  }
+
+  // Listen from the start: without a listener, an error raised while the source is awaited would crash the process
+  let streamError: Error | null = null;
+  const onError = (error: Error): void => {
+    streamError = streamError ?? error;
+  };
+  stream.on('error', onError);
+
+  let columns = options.columns;
+  let headerWritten = false;
+  let count = 0;
+  try {
+    if (typeof destination === 'string') {
+      await opened(stream);
+    }
+    const chunks = isAsyncIterable(source) ? source : [source];
+    for await (const chunk of chunks) {
+      const rows = toRows(chunk);
+      if (format === 'csv') {
+        // Take the header from the first chunk that has rows
+        if (!columns && rows.length === 0) continue;
+        columns = columns ?? columnsOf(rows);
+        if (!options.columns) {
+          const added = columnsOf(rows).filter(column => !columns!.includes(column));
+          if (added.length > 0) {
+            throw new ValidationError(`Chunk adds columns missing from the CSV header: ${added.join(', ')}. Pass \`columns\` to export them`);
+          }
+        }
+        if (!headerWritten) {
+          await write(stream, csvHeader(columns, options));
+          headerWritten = true;
+        }
+        await write(stream, csvLines(rows, columns, options));
+      } else if (format === 'ndjson') {
+        await write(stream, ndjsonLines(rows, columns, options));
+      } else if (rows.length > 0) {
+        await write(stream, `${JSON.stringify(toColumnar(rows, { ...options, columns }))}\n`);
+      }
+      count += rows.length;
+    }
+    if (format === 'csv' && !headerWritten && columns) {
+      await write(stream, csvHeader(columns, options));
+    }
+    if (streamError) throw streamError;
+  } finally {
+    if (streamError) {
+      if (typeof destination === 'string') stream.destroy();
+    } else if (typeof destination === 'string' || end) {
+      await finish(stream);
+    }
+    stream.off('error', onError);
+  }
+  return count;
+}
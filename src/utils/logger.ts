@@ -0,0 +1,83 @@
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/** Structured context attached to a log line, e.g. { url, durationMs, retry } */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Logging interface accepted by every handler config. Adapters for pino, winston
+ * and similar libraries only need these four methods.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+/**
+ * Logger writing to the console, dropping messages below the configured level.
+ */
+export class ConsoleLogger implements Logger {
+  private threshold: number;
+
+  /**
+   * @param level - Minimum level to print. Defaults to 'info'
+   */
+  constructor(level: LogLevel = 'info') {
+    this.threshold = LEVEL_ORDER[level];
+  }
+
+  debug(message: string, fields?: LogFields): void {
+    this.write('debug', message, fields);
+  }
+
+  info(message: string, fields?: LogFields): void {
+    this.write('info', message, fields);
+  }
+
+  warn(message: string, fields?: LogFields): void {
+    this.write('warn', message, fields);
+  }
+
+  error(message: string, fields?: LogFields): void {
+    this.write('error', message, fields);
+  }
+
+  private write(level: Exclude<LogLevel, 'silent'>, message: string, fields?: LogFields): void {
+    if (LEVEL_ORDER[level] < this.threshold) return;
+
+    // eslint-disable-next-line no-console
+    const method = level === 'debug' ? console.debug : level === 'info' ? console.info : level === 'warn' ? console.warn : console.error;
+    if (fields && Object.keys(fields).length > 0) {
+      method(message, fields);
+    } else {
+      method(message);
+    }
+  }
+}
+
+/** Logger that discards everything */
+export const silentLogger: Logger = {
+  debug: () => {},
+  info: () => {},
+  warn: () => {},
+  error: () => {},
+};
+
+/**
+ * Resolves the `logger` config option shared by all handlers.
+ * @param logger - A Logger instance, or a level for the built-in console logger. Defaults to 'info'
+ * @returns The logger to use
+ */
+export function createLogger(logger: Logger | LogLevel = 'info'): Logger {
+  if (typeof logger !== 'string') return logger;
+  return logger === 'silent' ? silentLogger : new ConsoleLogger(logger);
+}
@@ -0,0 +1,171 @@
+import { isAbortError, sleep, throwIfAborted, toAbortError } from './abort.js';
+import { MAX_RETRIES, RETRY_DELAY } from './constants.js';
+import { RetryExhaustedError } from './errors.js';
+import { Logger } from './logger.js';
+
+export interface RetryPolicyOptions {
+  /** Total attempts including the first one. 1 disables retries */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles with every further retry */
+  baseDelayMs?: number;
+  /** Upper bound for the backoff delay; a server's Retry-After is capped by maxRetryAfterMs instead */
+  maxDelayMs?: number;
+  /** Fraction of each delay that is randomized, 0 (none) to 1 (full jitter) */
+  jitter?: number;
+  /** HTTP status codes worth retrying */
+  retryableStatuses?: number[];
+  /** Network error codes worth retrying, e.g. 'ECONNRESET' */
+  retryableErrors?: string[];
+  /** Wait as long as a 429/503 response's Retry-After header asks */
+  respectRetryAfter?: boolean;
+  /** Longest wait a Retry-After header can ask for; longer requests wait this long */
+  maxRetryAfterMs?: number;
+}
+
+export interface RetryContext {
+  /** Requested URL, for logs and RetryExhaustedError */
+  url: string;
+  logger?: Logger;
+  /** Stops further attempts and cuts the wait between them short */
+  signal?: AbortSignal;
+}
+
+/** The parts of an axios error the policy reads */
+interface RequestError {
+  code?: unknown;
+  response?: { status?: number; headers?: Record<string, unknown> };
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryPolicyOptions> = {
+  maxAttempts: MAX_RETRIES,
+  baseDelayMs: RETRY_DELAY[0] * 1000,
+  maxDelayMs: RETRY_DELAY[1] * 1000,
+  jitter: 0.5,
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryableErrors: ['ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'ERR_NETWORK'],
+  respectRetryAfter: true,
+  maxRetryAfterMs: 60_000,
+};
+
+/**
+ * Retry overrides for writes that must not be repeated (publishing events, inserting rows).
+ * Only failures where the server never received or refused the request are retried; timeouts and 5xx responses
+ * may arrive after the write was applied, so they are retried only if the call's `retry` lists them.
+ */
+export const WRITE_RETRY_OPTIONS: RetryPolicyOptions = {
+  retryableStatuses: [429],
+  retryableErrors: ['ECONNREFUSED', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH'],
+};
+
+/**
+ * Decides whether a failed request is retried and how long to wait before the next attempt.
+ * Only transient failures are retried: the configured status codes and network errors.
+ * Errors raised while validating a response are never retried.
+ */
+export class RetryPolicy {
+  readonly options: Readonly<Required<RetryPolicyOptions>>;
+
+  /**
+   * @param options - Policy options; omitted fields use the defaults
+   * @param options.maxAttempts - Total attempts. Defaults to MAX_RETRIES
+   * @param options.baseDelayMs - First retry delay. Defaults to RETRY_DELAY[0] seconds
+   * @param options.maxDelayMs - Backoff cap. Defaults to RETRY_DELAY[1] seconds
+   * @param options.jitter - Randomized fraction of each delay. Defaults to 0.5
+   * @param options.retryableStatuses - Defaults to 408, 425, 429, 500, 502, 503 and 504
+   * @param options.retryableErrors - Defaults to connection resets, refusals, timeouts and temporary DNS failures
+   * @param options.respectRetryAfter - Defaults to true
+   * @param options.maxRetryAfterMs - Retry-After cap. Defaults to 60 seconds
+   */
+  constructor(options: RetryPolicyOptions = {}) {
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...this.defined(options) };
+  }
+
+  /**
+   * Derives a policy with some options overridden, e.g. for a single call
+   * @param overrides - Options to change
+   * @returns A new policy, or this one when there is nothing to override
+   */
+  with(overrides?: RetryPolicyOptions | null): RetryPolicy {
+    if (!overrides) return this;
+    return new RetryPolicy({ ...this.options, ...this.defined(overrides) });
+  }
+
+  /**
+   * @param error - The error a request failed with
+   * @returns True if the request may succeed when sent again
+   */
+  isRetryable(error: unknown): boolean {
+    const err = error as RequestError | null | undefined;
+    const status = err?.response?.status;
+    if (status !== undefined) return this.options.retryableStatuses.includes(status);
+    return typeof err?.code === 'string' && this.options.retryableErrors.includes(err.code);
+  }
+
+  /**
+   * @param retry - Retry number, starting at 1
+   * @param error - The error the previous attempt failed with
+   * @returns Milliseconds to wait before the retry
+   */
+  delayMs(retry: number, error?: unknown): number {
+    const retryAfter = this.options.respectRetryAfter ? this.retryAfterMs(error) : null;
+    if (retryAfter !== null) return Math.min(retryAfter, this.options.maxRetryAfterMs);
+
+    const { baseDelayMs, maxDelayMs, jitter } = this.options;
+    const backoff = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, retry - 1));
+    const spread = Math.min(Math.max(jitter, 0), 1);
+    return Math.round(backoff * (1 - spread * Math.random()));
+  }
+
+  /**
+   * Runs a request, retrying transient failures
+   * @param fn - Sends the request; receives the attempt number starting at 1
+   * @param context - URL and logger for retry log lines
+   * @returns The first successful result
+   * @throws The error itself if it is not retryable, RetryExhaustedError once every attempt failed,
+   *   or AbortError as soon as the context's signal aborts
+   */
+  async execute<T>(fn: (attempt: number) => Promise<T>, context: RetryContext): Promise<T> {
+    const { maxAttempts } = this.options;
+    for (let attempt = 1; ; attempt++) {
+      throwIfAborted(context.signal);
+      try {
+        return await fn(attempt);
+      } catch (error: unknown) {
+        if (context.signal?.aborted) throw toAbortError(context.signal.reason);
+        if (isAbortError(error) || !this.isRetryable(error)) throw error;
+        if (attempt >= maxAttempts) {
+          if (maxAttempts <= 1) throw error;
+          throw new RetryExhaustedError(context.url, attempt, error);
+        }
+
+        const delayMs = this.delayMs(attempt, error);
+        const { name, message } = error as Error;
+        context.logger?.warn(`[${name}] Retry ${attempt}: ${message}`, { url: context.url, retry: attempt, delayMs });
+        await sleep(delayMs, context.signal);
+      }
+    }
+  }
+
+  private retryAfterMs(error: unknown): number | null {
+    const header = (error as RequestError | null | undefined)?.response?.headers?.['retry-after'];
+    if (header === undefined || header === null || header === '') return null;
+
+    const seconds = Number(header);
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(String(header));
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+  }
+
+  private defined(options: RetryPolicyOptions): RetryPolicyOptions {
+    return Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  }
+}
+
+/**
+ * Resolves the `retry` config option shared by all HTTP handlers.
+ * @param retry - A RetryPolicy, or options for a new one
+ * @returns The policy to use
+ */
+export function createRetryPolicy(retry: RetryPolicy | RetryPolicyOptions = {}): RetryPolicy {
+  return retry instanceof RetryPolicy ? retry : new RetryPolicy(retry);
+}
@@ -0,0 +1,176 @@
+import { ValidationError } from './errors.js';
+
+/** A summary statistic; `p50`, `p95`, `p99.9` etc. are percentiles between 0 and 100 */
+export type SummaryStat = 'count' | 'min' | 'max' | 'mean' | 'std' | 'first' | 'last' | `p${number}`;
+
+export const DEFAULT_SUMMARY_STATS: SummaryStat[] = ['count', 'min', 'max', 'mean', 'std', 'p50', 'p95', 'p99', 'first', 'last'];
+
+const BASIC_STATS = new Set(['count', 'min', 'max', 'mean', 'std', 'first', 'last']);
+
+/**
+ * @param stat - Statistic name
+ * @returns The percentile (0-100) named by a `p<number>` stat, or null for the other stats
+ * @throws ValidationError if the stat is unknown or the percentile is out of range
+ */
+export function percentileOf(stat: string): number | null {
+  if (BASIC_STATS.has(stat)) return null;
+  const match = /^p(\d+(?:\.\d+)?)$/.exec(stat);
+  const percentile = match ? Number(match[1]) : NaN;
+  if (!(percentile >= 0 && percentile <= 100)) {
+    throw new ValidationError(`Unknown summary stat: ${stat}`);
+  }
+  return percentile;
+}
+
+/**
+ * @param values - Values in any order; the array is not modified
+ * @returns The median (mean of the middle two for an even count), or null for no values
+ */
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Streaming quantile estimate using the P² algorithm (Jain & Chlamtac, 1985).
+ * Keeps five markers instead of the values, so memory stays constant however many values are pushed.
+ * Exact (linear interpolation, as in pandas) for up to five values.
+ */
+export class P2Quantile {
+  private readonly q: number;
+  private heights: number[] = [];
+  private count = 0;
+  private positions = [1, 2, 3, 4, 5];
+  private desired: number[];
+  private increments: number[];
+
+  /**
+   * @param percentile - Percentile to estimate, between 0 and 100
+   */
+  constructor(percentile: number) {
+    this.q = percentile / 100;
+    this.desired = [1, 1 + 2 * this.q, 1 + 4 * this.q, 3 + 2 * this.q, 5];
+    this.increments = [0, this.q / 2, this.q, (1 + this.q) / 2, 1];
+  }
+
+  push(value: number): void {
+    const h = this.heights;
+    this.count++;
+    if (h.length < 5) {
+      h.push(value);
+      h.sort((a, b) => a - b);
+      return;
+    }
+
+    // Find the cell the value falls in, extending the outer markers if needed
+    let k: number;
+    if (value < h[0]) {
+      h[0] = value;
+      k = 0;
+    } else if (value >= h[4]) {
+      h[4] = value;
+      k = 3;
+    } else {
+      k = 0;
+      while (value >= h[k + 1]) k++;
+    }
+
+    const n = this.positions;
+    for (let i = k + 1; i < 5; i++) n[i]++;
+    for (let i = 0; i < 5; i++) this.desired[i] += this.increments[i];
+
+    // Move the middle markers towards their desired positions
+    for (let i = 1; i <= 3; i++) {
+      const d = this.desired[i] - n[i];
+      if ((d >= 1 && n[i + 1] - n[i] > 1) || (d <= -1 && n[i - 1] - n[i] < -1)) {
+        const step = d > 0 ? 1 : -1;
+        const parabolic = h[i] + (step / (n[i + 1] - n[i - 1])) * (
+          (n[i] - n[i - 1] + step) * (h[i + 1] - h[i]) / (n[i + 1] - n[i]) +
+          (n[i + 1] - n[i] - step) * (h[i] - h[i - 1]) / (n[i] - n[i - 1])
+        );
+        h[i] = h[i - 1] < parabolic && parabolic < h[i + 1]
+          ? parabolic
+          : h[i] + step * (h[i + step] - h[i]) / (n[i + step] - n[i]);
+        n[i] += step;
+      }
+    }
+  }
+
+  /**
+   * @returns The estimated percentile, or null if no values were pushed
+   */
+  value(): number | null {
+    const h = this.heights;
+    if (h.length === 0) return null;
+    if (this.count <= 5) {
+      const rank = (h.length - 1) * this.q;
+      const lower = Math.floor(rank);
+      const upper = Math.ceil(rank);
+      return h[lower] + (h[upper] - h[lower]) * (rank - lower);
+    }
+    // The outer markers track the exact minimum and maximum
+    if (this.q === 0) return h[0];
+    if (this.q === 1) return h[4];
+    return h[2];
+  }
+}
+
+/**
+ * Single-pass summary of a series: count, min, max, mean and standard deviation (Welford's method),
+ * first and last readings, and P² percentile estimates. Values must be pushed in time order.
+ */
+export class RunningStats {
+  count = 0;
+  min: number | null = null;
+  max: number | null = null;
+  first: { time: number; value: number } | null = null;
+  last: { time: number; value: number } | null = null;
+  private runningMean = 0;
+  private sumSquares = 0;
+  private quantiles = new Map<number, P2Quantile>();
+
+  /**
+   * @param percentiles - Percentiles (0-100) to estimate
+   */
+  constructor(percentiles: number[] = []) {
+    percentiles.forEach(percentile => this.quantiles.set(percentile, new P2Quantile(percentile)));
+  }
+
+  /**
+   * @param value - Reading; non-finite values are ignored
+   * @param time - Unix timestamp of the reading in milliseconds
+   */
+  push(value: number, time: number): void {
+    if (!Number.isFinite(value)) return;
+
+    this.count++;
+    const delta = value - this.runningMean;
+    this.runningMean += delta / this.count;
+    this.sumSquares += delta * (value - this.runningMean);
+
+    if (this.min === null || value < this.min) this.min = value;
+    if (this.max === null || value > this.max) this.max = value;
+    if (!this.first) this.first = { time, value };
+    this.last = { time, value };
+    this.quantiles.forEach(quantile => quantile.push(value));
+  }
+
+  get mean(): number | null {
+    return this.count > 0 ? this.runningMean : null;
+  }
+
+  /** Sample standard deviation (n - 1), as in pandas; null for fewer than two values */
+  get std(): number | null {
+    return this.count > 1 ? Math.sqrt(this.sumSquares / (this.count - 1)) : null;
+  }
+
+  /**
+   * @param percentile - One of the percentiles passed to the constructor
+   * @returns The estimated percentile, or null if it is not tracked or no values were pushed
+   */
+  percentile(percentile: number): number | null {
+    return this.quantiles.get(percentile)?.value() ?? null;
+  }
+}
@@ -0,0 +1,245 @@
+import { ValidationError } from './errors.js';
+
+/** A point in time: a date string, a Date, or a Unix timestamp in seconds or milliseconds */
+export type TimeInput = string | number | Date;
+
+/** Wall-clock fields: [year, month (1-12), day, hour, minute, second] */
+export type ZonedParts = [number, number, number, number, number, number];
+
+const DAY_MS = 24 * 3600 * 1000;
+
+// Unix timestamps below this are taken as seconds: 1e11 ms is March 1973, 1e11 s is the year 5138
+const SECONDS_THRESHOLD = 1e11;
+
+// YYYY-MM-DD, optionally followed by HH:mm[:ss[.fff]] and a UTC offset
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,9}))?)?)?\s*(Z|[+-]\d{2}(?::?\d{2})?)?$/i;
+
+// Intl formatters are expensive to build, so keep one per timezone
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+function zonedFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = zonedFormatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+      });
+    } catch (error) {
+      throw new ValidationError(`Invalid timezone: ${timezone}`, error);
+    }
+    zonedFormatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * @param timezone - IANA timezone name, e.g. 'Asia/Kolkata'
+ * @returns True if the runtime knows the timezone
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    zonedFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Get the wall-clock parts of a Unix timestamp in the given timezone
+ * @param ms - Unix timestamp in milliseconds
+ * @param timezone - IANA timezone name
+ * @returns [year, month (1-12), day, hour, minute, second]
+ * @throws ValidationError if the timezone is unknown
+ */
+export function zonedParts(ms: number, timezone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const { type, value } of zonedFormatter(timezone).formatToParts(new Date(ms))) {
+    if (type !== 'literal') parts[type] = parseInt(value, 10);
+  }
+  return [parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second];
+}
+
+/**
+ * Get the offset of a timezone from UTC at a given instant
+ * @param ms - Unix timestamp in milliseconds
+ * @param timezone - IANA timezone name
+ * @returns Offset in milliseconds (wall-clock time minus UTC)
+ */
+export function zonedOffset(ms: number, timezone: string): number {
+  const wholeSeconds = Math.floor(ms / 1000) * 1000;
+  const [y, mo, d, h, mi, s] = zonedParts(wholeSeconds, timezone);
+  return Date.UTC(y, mo - 1, d, h, mi, s) - wholeSeconds;
+}
+
+/**
+ * Convert wall-clock parts in the given timezone to a Unix timestamp.
+ * Times repeated when clocks go back resolve to the earlier instant; times skipped when
+ * clocks go forward are moved forward by the size of the gap (02:30 becomes 03:30).
+ * @param parts - [year, month (1-12), day, hour, minute, second, millisecond]; out-of-range values roll over
+ * @param timezone - IANA timezone name
+ * @returns Unix timestamp in milliseconds
+ */
+export function zonedToUnix(parts: number[], timezone: string): number {
+  const [year, month, day, hour = 0, minute = 0, second = 0, millisecond = 0] = parts;
+  const wallTime = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+
+  // At most one transition falls within a day of the wall time, so the offsets a day
+  // before and after are the only candidates
+  const before = zonedOffset(wallTime - DAY_MS, timezone);
+  const after = zonedOffset(wallTime + DAY_MS, timezone);
+  const matches = [before, after]
+    .map(offset => wallTime - offset)
+    .filter(ms => wallTime - ms === zonedOffset(ms, timezone));
+
+  if (matches.length > 0) return Math.min(...matches);
+  return wallTime - before;
+}
+
+/**
+ * Convert a time to a Unix timestamp in milliseconds.
+ * - null or undefined: the current time
+ * - numbers (or digit-only strings): Unix seconds below 1e11, milliseconds otherwise
+ * - 'YYYY-MM-DD', 'YYYY-MM-DD HH:mm:ss' or ISO 8601 strings: wall-clock time in `timezone`
+ *   unless the string carries `Z` or an offset such as `+05:30`
+ * - Date objects and other strings `Date.parse` understands (e.g. RFC 2822)
+ * @param time - The time to convert
+ * @param timezone - IANA timezone for strings without an offset. Defaults to 'UTC'
+ * @returns Unix timestamp in milliseconds
+ * @throws ValidationError if the time cannot be parsed or the timezone is unknown
+ */
+export function toUnixMs(time: TimeInput | null | undefined, timezone: string = 'UTC'): number {
+  if (time === null || time === undefined) {
+    return Date.now();
+  }
+
+  if (typeof time === 'number') {
+    if (!Number.isFinite(time) || time < 0) {
+      throw new ValidationError(`Invalid Unix timestamp: ${time}`);
+    }
+    return time < SECONDS_THRESHOLD ? time * 1000 : time;
+  }
+
+  if (time instanceof Date) {
+    const ms = time.getTime();
+    if (isNaN(ms)) throw new ValidationError('Invalid Date object');
+    return ms;
+  }
+
+  if (typeof time !== 'string') {
+    throw new ValidationError('Time must be a string, number, Date object, or null');
+  }
+
+  const text = time.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return toUnixMs(Number(text), timezone);
+  }
+
+  const match = DATE_TIME_PATTERN.exec(text);
+  if (match) {
+    const [, y, mo, d, h = '0', mi = '0', s = '0', fraction = '', offset] = match;
+    const parts = [y, mo, d, h, mi, s].map(Number);
+    const millisecond = Number(fraction.padEnd(3, '0').slice(0, 3));
+    const [year, month, day, hour, minute, second] = parts;
+
+    // Reject values Date.UTC would silently roll over, e.g. February 30 or 25:00
+    const check = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+    if (
+      check.getUTCFullYear() !== year || check.getUTCMonth() !== month - 1 || check.getUTCDate() !== day ||
+      check.getUTCHours() !== hour || check.getUTCMinutes() !== minute || check.getUTCSeconds() !== second
+    ) {
+      throw new ValidationError(`Invalid date string: ${time}`);
+    }
+
+    if (!offset) {
+      return zonedToUnix([year, month, day, hour, minute, second, millisecond], timezone);
+    }
+    const wallTime = Date.UTC(year, month - 1, day, hour, minute, second, millisecond);
+    if (offset.toUpperCase() === 'Z') return wallTime;
+    const sign = offset[0] === '-' ? -1 : 1;
+    const digits = offset.slice(1).replace(':', '');
+    const offsetMs = (Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2) || 0)) * 60 * 1000;
+    return wallTime - sign * offsetMs;
+  }
+
+  const parsed = Date.parse(text);
+  if (isNaN(parsed)) {
+    throw new ValidationError(`Invalid date string: ${time}`);
+  }
+  return parsed;
+}
+
+/**
+ * Convert a time to an ISO 8601 string in UTC
+ * @param time - The time to convert, as accepted by `toUnixMs`. Defaults to now
+ * @param timezone - IANA timezone for strings without an offset. Defaults to 'UTC'
+ * @returns e.g. '2024-03-10T07:30:00.000Z'
+ * @throws ValidationError if the time cannot be parsed
+ */
+export function toIsoUtc(time?: TimeInput | null, timezone: string = 'UTC'): string {
+  return new Date(toUnixMs(time, timezone)).toISOString();
+}
+
+/**
+ * How query results render timestamps when `unix` is false:
+ * - 'iso': UTC ISO 8601 strings as sent by the server, e.g. '2024-01-01T00:00:00.000Z'
+ * - 'local': ISO 8601 in the configured timezone with its offset, e.g. '2024-01-01T05:30:00.000+05:30'
+ * - 'date': Date objects
+ * - any other string: a `formatZoned` pattern such as 'DD/MM/YYYY HH:mm', rendered in the configured timezone
+ */
+export type TimeFormat = 'iso' | 'local' | 'date' | (string & Record<never, never>);
+
+const LOCAL_ISO_PATTERN = 'YYYY-MM-DDTHH:mm:ss.SSSZ';
+
+// Tokens recognised by formatZoned; text in square brackets is copied as is
+const FORMAT_TOKENS = /\[([^\]]*)]|YYYY|SSS|MM|DD|HH|mm|ss|Z/g;
+
+/**
+ * Format a Unix timestamp as wall-clock time in a timezone
+ * @param ms - Unix timestamp in milliseconds
+ * @param timezone - IANA timezone name
+ * @param pattern - Tokens: YYYY, MM, DD, HH (00-23), mm, ss, SSS (milliseconds) and Z (offset, e.g. +05:30).
+ *   Wrap literal text in square brackets. Defaults to 'YYYY-MM-DD HH:mm:ss'
+ * @returns The formatted time, e.g. '2024-01-01 05:30:00'
+ */
+export function formatZoned(ms: number, timezone: string, pattern: string = 'YYYY-MM-DD HH:mm:ss'): string {
+  const [y, mo, d, h, mi, s] = zonedParts(ms, timezone);
+  const pad = (value: number, width: number = 2): string => String(value).padStart(width, '0');
+  const offset = (): string => {
+    const minutes = Math.round(zonedOffset(ms, timezone) / 60000);
+    const sign = minutes < 0 ? '-' : '+';
+    return `${sign}${pad(Math.floor(Math.abs(minutes) / 60))}:${pad(Math.abs(minutes) % 60)}`;
+  };
+
+  const tokens: Record<string, () => string> = {
+    YYYY: () => pad(y, 4),
+    MM: () => pad(mo),
+    DD: () => pad(d),
+    HH: () => pad(h),
+    mm: () => pad(mi),
+    ss: () => pad(s),
+    SSS: () => pad(((ms % 1000) + 1000) % 1000, 3),
+    Z: offset,
+  };
+  return pattern.replace(FORMAT_TOKENS, (token, literal?: string) => literal ?? tokens[token]());
+}
+
+/**
+ * Render a Unix timestamp in one of the `TimeFormat` output formats
+ * @param ms - Unix timestamp in milliseconds
+ * @param format - Output format
+ * @param timezone - IANA timezone for 'local' and patterns
+ * @returns A string, or a Date for the 'date' format
+ */
+export function formatTime(ms: number, format: TimeFormat, timezone: string = 'UTC'): string | Date {
+  if (format === 'date') return new Date(ms);
+  if (format === 'iso') return new Date(ms).toISOString();
+  return formatZoned(ms, timezone, format === 'local' ? LOCAL_ISO_PATTERN : format);
+}
@@ -0,0 +1,162 @@
+import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { abortable, throwIfAborted } from './abort.js';
+import { Protocol } from './constants.js';
+import { Logger } from './logger.js';
+import { RetryPolicy, RetryPolicyOptions, createRetryPolicy } from './retry.js';
+
+/** Sends one request; anything with axios' `request` semantics works (an axios instance, a test double, ...) */
+export type RequestFunction = <T = any>(config: AxiosRequestConfig) => Promise<AxiosResponse<T>>;
+
+export interface HttpTransportOptions {
+  /** Axios instance to send requests with, e.g. one with interceptors or a proxy configured */
+  axios?: AxiosInstance;
+  /** Request function used instead of axios; takes precedence over `axios` */
+  request?: RequestFunction;
+  /** Headers sent with every request; per-request headers override them */
+  headers?: Record<string, string>;
+  /** Request timeout in milliseconds. 0 (the default) waits indefinitely */
+  timeout?: number;
+  /** Agent for http:// (on-prem) requests */
+  httpAgent?: unknown;
+  /** Agent for https:// requests, e.g. one trusting a custom CA certificate */
+  httpsAgent?: unknown;
+  /** Reuse connections with keep-alive agents when no agents are given. Node.js only */
+  keepAlive?: boolean;
+}
+
+export interface TransportRequestConfig extends AxiosRequestConfig {
+  /** Overrides the transport's retry policy for this request */
+  retry?: RetryPolicyOptions | null;
+  /** Cancels the request and any retry wait */
+  signal?: AbortSignal;
+}
+
+/**
+ * Shared HTTP pipeline for every handler. Merges the base headers, timeout and agents into
+ * each request and sends it through the injected axios instance or request function.
+ */
+export class HttpTransport {
+  private send: RequestFunction;
+  private headers: Record<string, string>;
+  private timeout: number;
+  private agents: Promise<{ httpAgent: unknown; httpsAgent: unknown }>;
+  private retryPolicy: RetryPolicy | null = null;
+  private logger: Logger | undefined;
+
+  /**
+   * @param options - Transport options
+   * @param options.axios - Axios instance to use. Defaults to the global axios
+   * @param options.request - Request function to use instead of axios
+   * @param options.headers - Headers added to every request
+   * @param options.timeout - Request timeout in milliseconds. Defaults to 0 (none)
+   * @param options.httpAgent - Agent for http:// requests
+   * @param options.httpsAgent - Agent for https:// requests
+   * @param options.keepAlive - Create keep-alive agents when none are given. Defaults to false
+   */
+  constructor({
+    axios: instance = axios,
+    request,
+    headers = {},
+    timeout = 0,
+    httpAgent,
+    httpsAgent,
+    keepAlive = false
+  }: HttpTransportOptions = {}) {
+    this.send = request ?? (<T>(config: AxiosRequestConfig): Promise<AxiosResponse<T>> => instance.request<T>(config));
+    this.headers = headers;
+    this.timeout = timeout;
+    // Node's http modules are loaded on demand so browser bundles never pull them in
+    this.agents = keepAlive && (httpAgent === undefined || httpsAgent === undefined)
+      ? Promise.all([import('http'), import('https')]).then(([http, https]) => ({
+        httpAgent: httpAgent ?? new http.Agent({ keepAlive: true }),
+        httpsAgent: httpsAgent ?? new https.Agent({ keepAlive: true }),
+      }))
+      : Promise.resolve({ httpAgent, httpsAgent });
+  }
+
+  /**
+   * Creates a view of this transport that retries failed requests. The view shares the
+   * sender, headers and agents, so handlers with different policies can share one transport.
+   * @param policy - Retry policy applied to every request sent through the view
+   * @param logger - Logger for retry warnings
+   * @returns The retrying transport
+   */
+  withRetry(policy: RetryPolicy | RetryPolicyOptions = {}, logger?: Logger): HttpTransport {
+    const scoped: HttpTransport = Object.assign(Object.create(HttpTransport.prototype), this);
+    scoped.retryPolicy = createRetryPolicy(policy);
+    scoped.logger = logger;
+    return scoped;
+  }
+
+  /**
+   * Sends a request with the transport defaults applied, retrying transient failures
+   * when the transport or the request has a retry policy
+   * @param config - Axios request config; its headers, timeout and agents override the defaults
+   * @returns The response
+   * @throws The request error, RetryExhaustedError once every attempt failed, or AbortError once `signal` aborts
+   */
+  async request<T = any>({ retry, ...config }: TransportRequestConfig): Promise<AxiosResponse<T>> {
+    const { signal } = config;
+    throwIfAborted(signal);
+    const { httpAgent, httpsAgent } = await this.agents;
+    // abortable() also covers injected request functions that ignore the signal
+    const send = (): Promise<AxiosResponse<T>> => abortable(this.send<T>({
+      timeout: this.timeout,
+      ...(httpAgent !== undefined && { httpAgent }),
+      ...(httpsAgent !== undefined && { httpsAgent }),
+      ...config,
+      headers: { ...this.headers, ...(config.headers as Record<string, string> | undefined) },
+    }), signal);
+
+    const policy = this.retryPolicy ? this.retryPolicy.with(retry) : retry ? createRetryPolicy(retry) : null;
+    if (!policy) return send();
+    return policy.execute(send, { url: config.url ?? '', logger: this.logger, signal });
+  }
+
+  async get<T = any>(url: string, config: TransportRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'get', url });
+  }
+
+  async post<T = any>(url: string, data?: unknown, config: TransportRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'post', url, data });
+  }
+
+  async put<T = any>(url: string, data?: unknown, config: TransportRequestConfig = {}): Promise<AxiosResponse<T>> {
+    return this.request<T>({ ...config, method: 'put', url, data });
+  }
+}
+
+/**
+ * Resolves the `transport` config option shared by all handlers.
+ * @param transport - An HttpTransport to share, or options for a new one
+ * @returns The transport to use
+ */
+export function createTransport(transport: HttpTransport | HttpTransportOptions = {}): HttpTransport {
+  return transport instanceof HttpTransport ? transport : new HttpTransport(transport);
+}
+
+/**
+ * Fills the `{protocol}` and `{data_url}` placeholders of an endpoint template from constants.ts
+ * @param template - Endpoint template
+ * @param dataUrl - Data server host
+ * @param onPrem - Use HTTP (on-premise) instead of HTTPS
+ * @returns The request URL
+ */
+export function formatUrl(template: string, dataUrl: string, onPrem: boolean): string {
+  const protocol = onPrem ? Protocol.HTTP : Protocol.HTTPS;
+  return template.replace('{protocol}', protocol).replace('{data_url}', dataUrl);
+}
+
+/**
+ * Describes a failed response for log lines and error messages
+ * @param response - The response, if one was received
+ * @param url - The requested URL
+ * @returns Status, URL, server and response body on separate lines
+ */
+export function errorMessage(response: AxiosResponse | undefined, url: string): string {
+  if (!response) {
+    return `\n[URL] ${url}\n[EXCEPTION] No response received`;
+  }
+  const body = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+  return `\n[STATUS CODE] ${response.status}\n[URL] ${url}\n[SERVER INFO] ${response.headers?.server || 'Unknown Server'}\n[RESPONSE] ${body}`;
+}
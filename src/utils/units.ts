@@ -0,0 +1,178 @@
+export type UnitCategory = 'energy' | 'power' | 'apparentEnergy' | 'apparentPower' | 'temperature' | 'pressure' | 'flow';
+
+export interface UnitDefinition {
+  category: UnitCategory;
+  /** Multiplier to the category's base unit (J, W, VA·s, VA, K, Pa, m³/s) */
+  factor: number;
+  /** Added after scaling; only temperatures need it */
+  offset?: number;
+}
+
+export const UNITS: Record<string, UnitDefinition> = {
+  // Energy (base: J)
+  'mWh': { category: 'energy', factor: 3.6 },
+  'J': { category: 'energy', factor: 1 },
+  'kJ': { category: 'energy', factor: 1e3 },
+  'MJ': { category: 'energy', factor: 1e6 },
+  'GJ': { category: 'energy', factor: 1e9 },
+  'Wh': { category: 'energy', factor: 3600 },
+  'kWh': { category: 'energy', factor: 3.6e6 },
+  'MWh': { category: 'energy', factor: 3.6e9 },
+  'GWh': { category: 'energy', factor: 3.6e12 },
+  'cal': { category: 'energy', factor: 4.184 },
+  'kcal': { category: 'energy', factor: 4184 },
+  'BTU': { category: 'energy', factor: 1055.05585 },
+  'MMBTU': { category: 'energy', factor: 1.05505585e9 },
+  'therm': { category: 'energy', factor: 1.05505585e8 },
+
+  // Power (base: W)
+  'mW': { category: 'power', factor: 1e-3 },
+  'W': { category: 'power', factor: 1 },
+  'kW': { category: 'power', factor: 1e3 },
+  'MW': { category: 'power', factor: 1e6 },
+  'GW': { category: 'power', factor: 1e9 },
+  'hp': { category: 'power', factor: 745.699872 },
+  'BTU/h': { category: 'power', factor: 0.29307107 },
+  'TR': { category: 'power', factor: 3516.8528 },
+  'kcal/h': { category: 'power', factor: 1.16222222 },
+
+  // Apparent energy and power are kept apart from real energy and power, so kVA never converts to kW
+  'VAh': { category: 'apparentEnergy', factor: 3600 },
+  'kVAh': { category: 'apparentEnergy', factor: 3.6e6 },
+  'MVAh': { category: 'apparentEnergy', factor: 3.6e9 },
+  'VA': { category: 'apparentPower', factor: 1 },
+  'kVA': { category: 'apparentPower', factor: 1e3 },
+  'MVA': { category: 'apparentPower', factor: 1e6 },
+
+  // Temperature (base: K)
+  'K': { category: 'temperature', factor: 1 },
+  '°C': { category: 'temperature', factor: 1, offset: 273.15 },
+  '°F': { category: 'temperature', factor: 5 / 9, offset: 273.15 - (32 * 5) / 9 },
+
+  // Pressure (base: Pa)
+  'mPa': { category: 'pressure', factor: 1e-3 },
+  'Pa': { category: 'pressure', factor: 1 },
+  'hPa': { category: 'pressure', factor: 100 },
+  'kPa': { category: 'pressure', factor: 1e3 },
+  'MPa': { category: 'pressure', factor: 1e6 },
+  'bar': { category: 'pressure', factor: 1e5 },
+  'mbar': { category: 'pressure', factor: 100 },
+  'psi': { category: 'pressure', factor: 6894.757293 },
+  'atm': { category: 'pressure', factor: 101325 },
+  'mmHg': { category: 'pressure', factor: 133.322387 },
+  'inH2O': { category: 'pressure', factor: 249.08891 },
+  'mmH2O': { category: 'pressure', factor: 9.80665 },
+  'kg/cm²': { category: 'pressure', factor: 98066.5 },
+
+  // Volumetric flow (base: m³/s)
+  'm³/s': { category: 'flow', factor: 1 },
+  'm³/min': { category: 'flow', factor: 1 / 60 },
+  'm³/h': { category: 'flow', factor: 1 / 3600 },
+  'L/s': { category: 'flow', factor: 1e-3 },
+  'L/min': { category: 'flow', factor: 1e-3 / 60 },
+  'L/h': { category: 'flow', factor: 1e-3 / 3600 },
+  'kL/h': { category: 'flow', factor: 1 / 3600 },
+  'gpm': { category: 'flow', factor: 6.30901964e-5 },
+  'cfm': { category: 'flow', factor: 4.71947443e-4 },
+};
+
+// Spellings seen in device metadata that differ from the keys above (compared lowercased, after normalizeKey)
+const UNIT_ALIASES: Record<string, string> = {
+  'c': '°C',
+  'degc': '°C',
+  'celsius': '°C',
+  'f': '°F',
+  'degf': '°F',
+  'fahrenheit': '°F',
+  'kelvin': 'K',
+  'm3/s': 'm³/s',
+  'm3/min': 'm³/min',
+  'm3/h': 'm³/h',
+  'm3/hr': 'm³/h',
+  'cmh': 'm³/h',
+  'l/s': 'L/s',
+  'lps': 'L/s',
+  'l/m': 'L/min',
+  'lpm': 'L/min',
+  'l/h': 'L/h',
+  'lph': 'L/h',
+  'l/hr': 'L/h',
+  'kl/hr': 'kL/h',
+  'kg/cm2': 'kg/cm²',
+  'kgf/cm2': 'kg/cm²',
+  'btu/hr': 'BTU/h',
+  'mmbtu': 'MMBTU',
+  'tr': 'TR',
+  'ton': 'TR',
+  'kcal/hr': 'kcal/h',
+};
+
+// Case is kept: prefixes such as milli (mW) and mega (MW) differ only in case
+const normalizeKey = (unit: string): string =>
+  unit.trim().replace(/\s+/g, '').replace(/°/g, '').replace(/³/g, '3').replace(/²/g, '2');
+
+const SYMBOLS = new Map<string, string>(Object.keys(UNITS).map(symbol => [normalizeKey(symbol), symbol]));
+
+// Lowercased key → every symbol with that spelling, e.g. 'mw' → ['mW', 'MW']
+const FOLDED = new Map<string, string[]>();
+Object.keys(UNITS).forEach((symbol) => {
+  const key = normalizeKey(symbol).toLowerCase();
+  FOLDED.set(key, [...(FOLDED.get(key) ?? []), symbol]);
+});
+
+/**
+ * Resolves a unit as written in device metadata to its canonical symbol
+ * @param unit - Unit string, e.g. 'kwh', 'deg C' or 'm3/hr'
+ * @returns The canonical symbol (e.g. 'kWh', '°C', 'm³/h'), or null if the unit is unknown
+ */
+export function resolveUnit(unit: string | null | undefined): string | null {
+  if (!unit) return null;
+  const key = normalizeKey(unit);
+  const exact = SYMBOLS.get(key);
+  if (exact) return exact;
+
+  const folded = key.toLowerCase();
+  if (UNIT_ALIASES[folded]) return UNIT_ALIASES[folded];
+
+  // Otherwise ignore case, except for a leading m/M (milli or mega), and only when a single unit matches
+  const candidates = (FOLDED.get(folded) ?? []).filter(symbol => !/^[mM]/.test(key) || symbol[0] === key[0]);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+/**
+ * Builds a converter between two units of the same category
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns A function converting values, or null if either unit is unknown or the categories differ
+ */
+export function getUnitConverter(from: string, to: string): ((value: number) => number) | null {
+  const fromSymbol = resolveUnit(from);
+  const toSymbol = resolveUnit(to);
+  if (!fromSymbol || !toSymbol) return null;
+
+  const source = UNITS[fromSymbol];
+  const target = UNITS[toSymbol];
+  if (source.category !== target.category) return null;
+  if (fromSymbol === toSymbol) return (value) => value;
+
+  const sourceOffset = source.offset ?? 0;
+  const targetOffset = target.offset ?? 0;
+  // Round to 12 significant digits so e.g. 20 °C comes back as 68 °F rather than 67.99999999999999
+  return (value) => parseFloat(((value * source.factor + sourceOffset - targetOffset) / target.factor).toPrecision(12));
+}
+
+/**
+ * Converts a value between two units of the same category
+ * @param value - Value in the source unit
+ * @param from - Source unit
+ * @param to - Target unit
+ * @returns The value in the target unit
+ * @throws Error if either unit is unknown or the units measure different quantities
+ */
+export function convertUnit(value: number, from: string, to: string): number {
+  const converter = getUnitConverter(from, to);
+  if (!converter) {
+    throw new Error(`Cannot convert from '${from}' to '${to}'`);
+  }
+  return converter(value);
+}
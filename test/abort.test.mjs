@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AbortError, TimeoutError } from '../dist/index.js';
+import { fakeDataAccess, fakeTransport, httpError } from './helpers.mjs';
+
+// A policy whose first retry would wait ten seconds
+const slowRetry = { maxAttempts: 3, baseDelayMs: 10_000, jitter: 0, respectRetryAfter: false };
+
+test('aborting during a retry wait rejects at once without another attempt', async () => {
+  const { transport, calls } = fakeTransport(config => { throw httpError(config, 503); });
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 20);
+
+  const started = Date.now();
+  await assert.rejects(
+    transport.withRetry(slowRetry).get('https://example.test/a', { signal: controller.signal }),
+    error => error instanceof AbortError && !(error instanceof TimeoutError)
+  );
+  assert.ok(Date.now() - started < 1000, 'the wait is cut short');
+  assert.equal(calls.length, 1);
+});
+
+test('a deadline that passes during a retry wait throws a TimeoutError even without throwOnError', async () => {
+  const { dataAccess, calls } = fakeDataAccess(config => { throw httpError(config, 503); });
+
+  const started = Date.now();
+  await assert.rejects(
+    dataAccess.dataQuery({ deviceId: 'D1', startTime: 1, endTime: 2, parallel: false, retry: slowRetry, timeoutMs: 30 }),
+    error => error instanceof TimeoutError && error.timeoutMs === 30
+  );
+  assert.ok(Date.now() - started < 1000, 'the wait is cut short');
+  assert.equal(calls.filter(({ url }) => url.includes('getAllData')).length, 1);
+});
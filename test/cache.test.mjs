@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MemoryCacheStore } from '../dist/index.js';
+import { fakeDataAccess } from './helpers.mjs';
+
+test('the least recently used entry is evicted first', async () => {
+  const store = new MemoryCacheStore({ maxEntries: 2 });
+  await store.set('a', 1);
+  await store.set('b', 2);
+  assert.equal(await store.get('a'), 1);
+  await store.set('c', 3);
+
+  assert.equal(store.size, 2);
+  assert.equal(await store.get('b'), undefined);
+  assert.deepEqual([await store.get('a'), await store.get('c')], [1, 3]);
+});
+
+test('entries expire after their TTL', async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const store = new MemoryCacheStore({ ttlMs: 1000 });
+  await store.set('default', 1);
+  await store.set('longer', 2, 5000);
+
+  now += 999;
+  assert.equal(await store.get('default'), 1);
+  now += 1;
+  assert.equal(await store.get('default'), undefined);
+  assert.equal(await store.get('longer'), 2);
+  now += 4000;
+  assert.equal(await store.get('longer'), undefined);
+  assert.equal(store.size, 0);
+});
+
+test('cached device lists are reused until the TTL passes', async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, 'now', () => now);
+  const { dataAccess, calls } = fakeDataAccess(undefined, { cache: { ttlMs: 1000 } });
+  const deviceRequests = () => calls.filter(({ url }) => url.includes('allDevices')).length;
+
+  await dataAccess.getDeviceDetails();
+  await dataAccess.getDeviceDetails();
+  assert.equal(deviceRequests(), 1);
+  now += 1000;
+  await dataAccess.getDeviceDetails();
+  assert.equal(deviceRequests(), 2);
+});
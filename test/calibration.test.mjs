@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalibrationEngine } from '../dist/index.js';
+import { fakeDataAccess } from './helpers.mjs';
+
+const params = values => Object.entries(values).map(([paramName, paramValue]) => ({ paramName, paramValue }));
+const context = { deviceId: 'D1', sensor: 'D5' };
+const START = Date.UTC(2024, 0, 1);
+
+test('lookup tables interpolate between points and hold the end values outside them', () => {
+  const engine = new CalibrationEngine();
+  for (const lookup of [[[10, 100], [0, 0], [20, 400]], '0:0,10:100,20:400', '[{"x":0,"y":0},{"x":10,"y":100},{"x":20,"y":400}]']) {
+    const { kind, apply } = engine.resolve(params({ lookup, m: 2 }), context);
+    assert.equal(kind, 'lookup');
+    assert.deepEqual([-5, 5, 10, 15, 30].map(apply), [0, 50, 100, 250, 400]);
+  }
+});
+
+test('polynomials take coefficients constant term first, as a list or as a0, a1, ...', () => {
+  const engine = new CalibrationEngine();
+  const listed = engine.resolve(params({ poly: '[1, 0, 2]' }), context);
+  const indexed = engine.resolve(params({ a0: '1', a2: '2' }), context);
+  for (const { kind, apply } of [listed, indexed]) {
+    assert.equal(kind, 'polynomial');
+    assert.deepEqual([0, 1, 3].map(apply), [1, 3, 19]);
+  }
+});
+
+test('min and max are reported as bounds and clamp only when asked', () => {
+  const engine = new CalibrationEngine();
+  const { apply, bounds } = engine.resolve(params({ poly: '0,10', min: '5', max: 50 }), context);
+  assert.deepEqual(bounds, { min: 5, max: 50 });
+  assert.deepEqual([0, 3, 9].map(apply), [0, 30, 90]);
+  assert.deepEqual([0, 3, 9].map(value => engine.clamp(apply(value), bounds)), [5, 30, 50]);
+});
+
+test('queries apply the calibration and clamp to the bounds', async () => {
+  const { dataAccess } = fakeDataAccess(() => ({
+    data: [0, 3, 9].map((value, i) => ({ time: new Date(START + i * 60000).toISOString(), sensor: 'D5', value: String(value) })),
+    cursor: { start: null, end: null },
+  }), { params: { D5: params({ lookup: [[0, 0], [10, 100]], min: 10, max: 80 }) }, throwOnError: true });
+  const rows = await dataAccess.dataQuery({ deviceId: 'D1', startTime: START, endTime: START + 120000, unix: true, format: 'long', parallel: false });
+  assert.deepEqual(rows.map(({ value }) => value), [10, 30, 80]);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError } from '../dist/index.js';
+import { fakeDataAccess } from './helpers.mjs';
+
+const ENTITIES = [
+  { id: 'C1', name: 'HT Energy', devConfigs: [{ devId: 'D1', sensor: 'D5', percentage: 100 }] },
+  { id: 'C2', name: 'LT Energy', devConfigs: [{ devId: 'D2', sensor: 'D5', percentage: 50 }] },
+];
+
+// Period starts come back as wall-clock times in the requested timezone
+const SERIES = {
+  C1: { '2024-04-02 00:00:00': '12.5', '2024-04-01 00:00:00': 10, total: 22.5 },
+  C2: { '2024-04-01 00:00:00': null, '2024-04-02 00:00:00': 'n/a' },
+};
+
+function clusterDataAccess(config = {}) {
+  return fakeDataAccess(({ url, data }) => {
+    if (url.includes('getAllClusterData')) return { data: ENTITIES, totalCount: ENTITIES.length };
+    assert.match(url, /widget\/clusterData/);
+    return { data: SERIES[data.clusterID] };
+  }, { tz: 'Asia/Kolkata', ...config });
+}
+
+const range = { startTime: '2024-04-01', endTime: '2024-04-03', periodicity: 'day', unix: true };
+
+test('clusters resolve by name or id and each gets its own request', async () => {
+  const { dataAccess, calls } = clusterDataAccess();
+  const result = await dataAccess.getClusterAggregation({ clusters: ['HT Energy', 'C2'], ...range });
+
+  assert.deepEqual(result.map(({ id, name }) => [id, name]), [['C1', 'HT Energy'], ['C2', 'LT Energy']]);
+  const requests = calls.filter(({ url }) => url.includes('clusterData')).map(({ data }) => data);
+  assert.deepEqual(requests.map(({ clusterID }) => clusterID), ['C1', 'C2']);
+  assert.deepEqual(requests[0], {
+    userID: 'u',
+    clusterID: 'C1',
+    startTime: Date.parse('2024-03-31T18:30:00Z'),
+    endTime: Date.parse('2024-04-02T18:30:00Z'),
+    operator: 'sum',
+    timezone: 'Asia/Kolkata',
+    periodicity: 'day',
+  });
+});
+
+test('period keys are read in the configured timezone, sorted, and non-time keys are skipped', async () => {
+  const { dataAccess } = clusterDataAccess();
+  const [ht, lt] = await dataAccess.getClusterAggregation({ clusters: ['C1', 'C2'], ...range });
+
+  assert.deepEqual(ht.data, [
+    { time: Date.parse('2024-03-31T18:30:00Z'), value: 10 },
+    { time: Date.parse('2024-04-01T18:30:00Z'), value: 12.5 },
+  ]);
+  assert.deepEqual(lt.data.map(({ value }) => value), [null, null]);
+});
+
+test('a missing cluster is an error', async () => {
+  const { dataAccess } = clusterDataAccess({ throwOnError: true });
+  await assert.rejects(
+    dataAccess.getClusterAggregation({ clusters: ['HT Energy', 'Boiler'], ...range }),
+    error => error instanceof ValidationError && /Boiler/.test(error.message)
+  );
+  const { dataAccess: lenient } = clusterDataAccess();
+  assert.deepEqual(await lenient.getClusterAggregation({ clusters: ['Boiler'], ...range }), []);
+});
+
+test('period starts follow timeFormat and the configured default', async () => {
+  const { dataAccess } = clusterDataAccess();
+  const [iso] = await dataAccess.getClusterAggregation({ clusters: ['C1'], ...range, unix: false });
+  assert.deepEqual(iso.data.map(({ time }) => time), ['2024-03-31T18:30:00.000Z', '2024-04-01T18:30:00.000Z']);
+  const [local] = await dataAccess.getClusterAggregation({ clusters: ['C1'], ...range, unix: false, timeFormat: 'YYYY-MM-DD HH:mm' });
+  assert.deepEqual(local.data.map(({ time }) => time), ['2024-04-01 00:00', '2024-04-02 00:00']);
+
+  const { dataAccess: configured } = clusterDataAccess({ timeFormat: 'local' });
+  const [offset] = await configured.getClusterAggregation({ clusters: ['C1'], ...range, unix: false });
+  assert.equal(offset.data[0].time, '2024-04-01T00:00:00.000+05:30');
+});
@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDataAccess } from './helpers.mjs';
+
+const DAY = 24 * 3600 * 1000;
+const START = Date.UTC(2024, 0, 1);
+
+// Energy counter read every 6 hours; the 1st has no readings after 12:00 and the 3rd none at all
+const READINGS = [
+  [0, 100], [6, 106], [12, 112],
+  [24, 130], [30, 136], [36, 142], [42, 148],
+  [72, 200], [78, 206],
+].map(([hours, value]) => ({ time: START + hours * 3600 * 1000, value }));
+
+function consumptionDataAccess(config = {}) {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const { dataAccess } = fakeDataAccess(async ({ url, params }) => {
+    assert.match(url, /getStartEndDPV2/);
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+    const inBucket = READINGS.filter(({ time }) => time >= params.sTime && time < params.eTime);
+    const toDp = dp => dp && { time: new Date(dp.time).toISOString(), value: String(dp.value) };
+    return { data: { D5: { start: toDp(inBucket[0]), end: toDp(inBucket[inBucket.length - 1]) } } };
+  }, { sensors: [{ sensorId: 'D5', sensorName: 'Energy' }], throwOnError: true, ...config });
+  return { dataAccess, maxInFlight: () => maxInFlight };
+}
+
+test('daily deltas include the increase between buckets and add up to the total', async () => {
+  const { dataAccess, maxInFlight } = consumptionDataAccess();
+  const rows = await dataAccess.consumption({ deviceId: 'D1', sensorList: ['D5'], startTime: START, endTime: START + 4 * DAY, interval: 'day', cal: false, unix: true });
+
+  assert.deepEqual(rows.map(row => row.time), [0, 1, 2, 3].map(day => START + day * DAY));
+  assert.deepEqual(rows.map(row => row.delta), [30, 18, 52, 6]);
+  assert.equal(rows.reduce((sum, row) => sum + row.delta, 0), 206 - 100);
+  assert.deepEqual([rows[0].startValue, rows[0].endValue], [100, 112]);
+  assert.ok(maxInFlight() > 1, 'buckets are fetched concurrently');
+});
+
+test('a single bucket spans the whole range', async () => {
+  const { dataAccess } = consumptionDataAccess();
+  const rows = await dataAccess.consumption({ deviceId: 'D1', sensorList: ['D5'], startTime: START, endTime: START + 4 * DAY, cal: false });
+  assert.equal(rows.length, 1);
+  assert.equal(rows[0].delta, 106);
+});
+
+test('bucket and datapoint times follow timeFormat in the configured tz', async () => {
+  const { dataAccess } = consumptionDataAccess({ tz: 'Asia/Kolkata', timeFormat: 'YYYY-MM-DD HH:mm' });
+  const [first] = await dataAccess.consumption({ deviceId: 'D1', sensorList: ['D5'], startTime: START, endTime: START + 2 * DAY, interval: 'day', cal: false });
+  // Day buckets start at local midnight
+  assert.deepEqual([first.time, first.startTime, first.endTime], ['2024-01-01 00:00', '2024-01-01 05:30', '2024-01-01 17:30']);
+
+  const [iso] = await dataAccess.consumption({ deviceId: 'D1', sensorList: ['D5'], startTime: START, endTime: START + 2 * DAY, interval: 'day', cal: false, timeFormat: 'iso' });
+  assert.deepEqual([iso.time, iso.startTime], ['2023-12-31T18:30:00.000Z', new Date(START).toISOString()]);
+});
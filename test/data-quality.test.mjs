@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDataAccess, httpError } from './helpers.mjs';
+
+const START = 1700000000000;
+const MINUTE = 60000;
+
+const reading = (minute, value = '100') => ({ time: new Date(START + minute * MINUTE).toISOString(), sensor: 'D5', value });
+
+function qualityDataAccess({ firstReading = reading(0), influxStatus = 200 } = {}) {
+  const readings = [0, 1, 2, 3].map(minute => reading(minute));
+  return fakeDataAccess((config) => {
+    const { url } = config;
+    if (url.includes('getMultipleSensorsDPAfter')) return [{ D5: [firstReading] }];
+    if (url.includes('getLimitedDataMultipleSensors')) return { data: readings.slice(-1), cursor: { end: null } };
+    if (url.includes('getCursorOfBatches')) return { data: [] };
+    if (influxStatus !== 200) throw httpError(config, influxStatus);
+    return { data: readings, cursor: { start: 1, end: null } };
+  }, { devices: ['D1', 'D2'] });
+}
+
+const options = { devices: [{ deviceId: 'D1' }], startTime: START, endTime: START + 4 * MINUTE, unix: true, retry: { maxAttempts: 1 } };
+
+test('a failed fetch is reported as an error, not as a silent sensor', async () => {
+  const [device] = await qualityDataAccess({ influxStatus: 500 }).dataAccess.dataQualityReport(options);
+  assert.equal(device.deviceId, 'D1');
+  assert.deepEqual(device.sensors, []);
+  assert.match(device.error, /500|Server error/);
+});
+
+test('sensors are reported from their readings in the range', async () => {
+  const [device] = await qualityDataAccess().dataAccess.dataQualityReport(options);
+  assert.equal(device.error, undefined);
+  const [sensor] = device.sensors;
+  assert.equal(sensor.readings, 4);
+  assert.equal(sensor.firstSeen, START);
+  assert.equal(sensor.lastSeen, START + 3 * MINUTE);
+  assert.equal(sensor.expectedIntervalMs, MINUTE);
+  assert.equal(sensor.stale, false);
+  assert.deepEqual(sensor.gaps, []);
+});
+
+test('a first reading after the range is not reported as firstSeen', async () => {
+  const [device] = await qualityDataAccess({ firstReading: reading(60) }).dataAccess.dataQualityReport(options);
+  assert.equal(device.sensors[0].firstSeen, START);
+});
+
+test('the device list is fetched once and each device\'s metadata once', async () => {
+  const { dataAccess, calls } = qualityDataAccess();
+  const report = await dataAccess.dataQualityReport({ ...options, devices: [{ deviceId: 'D1' }, { deviceId: 'D2' }] });
+  assert.deepEqual(report.map(({ sensors }) => sensors[0].readings), [4, 4]);
+  assert.equal(calls.filter(({ url }) => url.includes('allDevices')).length, 1);
+  assert.deepEqual(calls.filter(({ url }) => /metaData\/device\//.test(url)).map(({ url }) => url.split('/').pop()), ['D1', 'D2']);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { ValidationError, toCsv, writeExport } from '../dist/index.js';
+
+async function* chunks(...pages) {
+  for (const page of pages) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+    yield page;
+  }
+}
+
+function collect(stream) {
+  let text = '';
+  stream.on('data', (chunk) => { text += chunk; });
+  return () => text;
+}
+
+test('an unwritable path rejects instead of crashing the process', async () => {
+  const source = chunks([{ time: 1, D5: 1 }], [{ time: 2, D5: 2 }]);
+  await assert.rejects(writeExport(source, '/nonexistent-dir/export.csv', { format: 'csv' }), { code: 'ENOENT' });
+});
+
+test('a CSV chunk adding columns is rejected when the header was inferred', async () => {
+  const out = new PassThrough();
+  collect(out);
+  await assert.rejects(
+    writeExport(chunks([{ time: 1, D5: 1 }], [{ time: 2, D5: 2, D6: 3 }]), out, { format: 'csv' }),
+    error => error instanceof ValidationError && /D6/.test(error.message)
+  );
+});
+
+test('fixed CSV columns accept chunks with new columns', async () => {
+  const out = new PassThrough();
+  const text = collect(out);
+  const count = await writeExport(chunks([{ time: 1, D5: 1 }], [{ time: 2, D6: 3 }]), out, { format: 'csv', columns: ['time', 'D5', 'D6'] });
+  assert.equal(count, 2);
+  assert.equal(text(), 'time,D5,D6\n1,1,\n2,,3\n');
+});
+
+test('CSV escapes delimiters, quotes and newlines', () => {
+  assert.equal(toCsv([{ a: 'x,y', b: 'say "hi"', c: 'line\nbreak' }]), 'a,b,c\n"x,y","say ""hi""","line\nbreak"\n');
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDataAccess } from './helpers.mjs';
+
+const START = Date.UTC(2024, 0, 1);
+const MINUTE = 60000;
+
+function query(readings, fill, tolerance) {
+  const { dataAccess } = fakeDataAccess(() => ({
+    data: readings.map(([ms, sensor, value]) => ({ time: new Date(START + ms).toISOString(), sensor, value: String(value) })),
+    cursor: { start: null, end: null },
+  }), { sensors: [{ sensorId: 'D5', sensorName: 'Energy' }, { sensorId: 'D6', sensorName: 'Power' }], throwOnError: true });
+  return dataAccess.dataQuery({ deviceId: 'D1', startTime: START, endTime: START + 5 * MINUTE, cal: false, unix: true, parallel: false, fill, tolerance });
+}
+
+// D5 is read at minutes 0, 1 and 4; D6 at minutes 2 and 3, so D5 has a three-minute gap
+const GAPPED = [[0, 'D5', 0], [MINUTE, 'D5', 10], [2 * MINUTE, 'D6', 1], [3 * MINUTE, 'D6', 1], [4 * MINUTE, 'D5', 40]];
+const energy = rows => rows.map(({ D5 }) => (D5 === null ? null : Number(D5)));
+
+test('ffill carries values forward up to the tolerance', async () => {
+  assert.deepEqual(energy(await query(GAPPED, 'ffill')), [0, 10, 10, 10, 40]);
+  assert.deepEqual(energy(await query(GAPPED, 'ffill', MINUTE)), [0, 10, 10, null, 40]);
+});
+
+test('bfill carries values back up to the tolerance', async () => {
+  assert.deepEqual(energy(await query(GAPPED, 'bfill')), [0, 10, 40, 40, 40]);
+  assert.deepEqual(energy(await query(GAPPED, 'bfill', MINUTE)), [0, 10, null, 40, 40]);
+});
+
+test('linear interpolates only across gaps within the tolerance', async () => {
+  assert.deepEqual(energy(await query(GAPPED, 'linear')), [0, 10, 20, 30, 40]);
+  assert.deepEqual(energy(await query(GAPPED, 'linear', 2 * MINUTE)), [0, 10, null, null, 40]);
+});
+
+test('nearest merges readings within the tolerance of a row, 1s by default', async () => {
+  const readings = [[0, 'D5', 1], [400, 'D6', 2], [MINUTE, 'D5', 3], [MINUTE + 1500, 'D6', 4]];
+  const byDefault = await query(readings, 'nearest');
+  assert.deepEqual(byDefault.map(({ time, D5, D6 }) => [time - START, D5, D6]), [[0, '1', '2'], [MINUTE, '3', null], [MINUTE + 1500, null, '4']]);
+
+  const wider = await query(readings, 'nearest', 2000);
+  assert.deepEqual(wider.map(({ time, D5, D6 }) => [time - START, D5, D6]), [[0, '1', '2'], [MINUTE, '3', '4']]);
+});
@@ -0,0 +1,47 @@
+// Shared fakes for the tests: handlers get an HttpTransport whose request function answers from a callback
+import { DataAccess, HttpTransport } from '../dist/index.js';
+
+/** An axios-style error for an HTTP error response */
+export function httpError(config, status, headers = {}) {
+  return Object.assign(new Error(`Request failed with status code ${status}`), { isAxiosError: true, config, response: { status, headers, data: {} } });
+}
+
+/** An axios-style error for a request that got no response */
+export function networkError(config, code) {
+  return Object.assign(new Error(code), { isAxiosError: true, config, code });
+}
+
+/**
+ * @param respond - Called with each request config and its 1-based call number; returns the response body or throws
+ * @returns The transport and the configs of every request it received
+ */
+export function fakeTransport(respond) {
+  const calls = [];
+  const request = async (config) => {
+    calls.push(config);
+    const data = await respond(config, calls.length);
+    return { status: 200, headers: {}, data };
+  };
+  return { transport: new HttpTransport({ request }), calls };
+}
+
+/**
+ * A DataAccess whose account holds `devices`, each with `sensors`, `params` and any other `metadata` fields.
+ * Device list and metadata requests are answered here; every other request goes to `respond`.
+ */
+export function fakeDataAccess(respond = () => { throw new Error('Unexpected request'); }, {
+  devices = ['D1'],
+  sensors = [{ sensorId: 'D5', sensorName: 'Volt' }],
+  params = {},
+  metadata = {},
+  ...config
+} = {}) {
+  const { transport, calls } = fakeTransport((request, call) => {
+    if (request.url.includes('allDevices')) return { data: devices.map(devID => ({ devID })) };
+    const match = /metaData\/device\/([^/?]+)/.exec(request.url);
+    if (match) return { data: { devID: match[1], sensors, params, ...metadata } };
+    return respond(request, call);
+  });
+  const dataAccess = new DataAccess({ userId: 'u', dataUrl: 'x', dsUrl: 'y', transport, logger: 'silent', ...config });
+  return { dataAccess, calls };
+}
@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDataAccess } from './helpers.mjs';
+
+const START = Date.UTC(2024, 0, 1);
+const MINUTE = 60000;
+const SENSORS = ['D5', 'D6'];
+// 3000 minutes of readings for two sensors, so every range takes several 1000-point pages
+const TIMES = Array.from({ length: 3000 }, (_, i) => START + i * MINUTE);
+const END = TIMES[TIMES.length - 1];
+
+/**
+ * Serves the cursor endpoints over TIMES. Both ends of a range are inclusive and a page never
+ * splits a timestamp, like the server's cursor.
+ */
+function cursorDataAccess(batches) {
+  return fakeDataAccess(({ url, params }) => {
+    if (url.includes('getCursorOfBatches')) return { data: batches };
+    assert.match(url, /getAllData/);
+    const inRange = TIMES.filter(time => time >= params.sTime && time <= params.eTime);
+    const page = inRange.slice(0, Math.floor(params.limit / SENSORS.length));
+    const next = inRange[page.length];
+    return {
+      data: page.flatMap(time => SENSORS.map((sensor, i) => ({ time: new Date(time).toISOString(), sensor, value: String(time / MINUTE + i) }))),
+      cursor: next ? { start: next, end: params.eTime } : { start: null, end: null },
+    };
+  }, { sensors: SENSORS.map(sensorId => ({ sensorId, sensorName: sensorId })), throwOnError: true });
+}
+
+async function query(batches, parallel) {
+  const { dataAccess, calls } = cursorDataAccess(batches);
+  const rows = await dataAccess.dataQuery({ deviceId: 'D1', startTime: START, endTime: END, cal: false, unix: true, format: 'long', parallel });
+  return { rows, batchRequests: calls.filter(({ url, params }) => url.includes('getAllData') && params.eTime !== END).length };
+}
+
+const at = minute => START + minute * MINUTE;
+
+test('batches sharing edge timestamps return the same rows as the sequential cursor', async () => {
+  const batches = [{ start: START, end: at(700) }, { start: at(700), end: at(1800) }, { start: at(1800), end: END }];
+  const sequential = await query(batches, false);
+  const parallel = await query(batches, true);
+
+  assert.equal(sequential.rows.length, TIMES.length * SENSORS.length);
+  assert.ok(parallel.batchRequests > 0, 'batches are fetched');
+  assert.deepEqual(parallel.rows, sequential.rows);
+});
+
+test('overlapping or gapped batches fall back to the sequential cursor', async () => {
+  const sequential = await query([], false);
+  const layouts = [
+    [{ start: START, end: at(1000) }, { start: at(900), end: END }],
+    [{ start: START, end: at(1000) }, { start: at(1100), end: END }],
+    [{ start: START, end: at(1000) }, { start: at(1000), end: at(2000) }],
+  ];
+  for (const batches of layouts) {
+    const parallel = await query(batches, true);
+    assert.equal(parallel.batchRequests, 0);
+    assert.deepEqual(parallel.rows, sequential.rows);
+  }
+});
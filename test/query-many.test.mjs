@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError } from '../dist/index.js';
+import { fakeDataAccess } from './helpers.mjs';
+import { mapWithConcurrency } from '../dist/utils/concurrency.js';
+
+const START = Date.UTC(2024, 0, 1);
+const MINUTE = 60000;
+
+// Readings as [minute, sensor, value]; D5 and D6 are never read at the same time
+const READINGS = {
+  D1: [[0, 'D5', 1], [1, 'D6', 10], [2, 'D5', 3], [3, 'D6', 30]],
+  D2: [[0, 'D6', 5], [2, 'D5', 7], [3, 'D5', 8]],
+};
+
+function manyDataAccess(config = {}) {
+  return fakeDataAccess(({ url, params }) => {
+    if (url.includes('getCursorOfBatches')) return { data: [] };
+    assert.match(url, /getAllData/);
+    const data = READINGS[params.device].map(([minute, sensor, value]) => ({ time: new Date(START + minute * MINUTE).toISOString(), sensor, value: String(value) }));
+    return { data, cursor: { start: null, end: null } };
+  }, {
+    devices: ['D1', 'D2'],
+    sensors: [{ sensorId: 'D5', sensorName: 'Volt' }, { sensorId: 'D6', sensorName: 'Amp' }],
+    throwOnError: true,
+    ...config,
+  });
+}
+
+// dataQueryMany must return for each device exactly what dataQuery returns with the same options
+async function assertMatchesDataQuery(options, config) {
+  const { dataAccess } = manyDataAccess(config);
+  const range = { startTime: START, endTime: START + 3 * MINUTE, unix: true, ...options };
+  const byDevice = await dataAccess.dataQueryMany({ devices: [{ deviceId: 'D1' }, { deviceId: 'D2' }], ...range });
+  for (const deviceId of ['D1', 'D2']) {
+    assert.deepEqual(byDevice[deviceId], await dataAccess.dataQuery({ deviceId, ...range }), deviceId);
+  }
+  return byDevice;
+}
+
+test('dataQueryMany rejects a device listed twice before sending any request', async () => {
+  const { dataAccess, calls } = fakeDataAccess(undefined, { devices: ['D1', 'D2'], throwOnError: true });
+  await assert.rejects(
+    dataAccess.dataQueryMany({ devices: [{ deviceId: 'D1', sensorList: ['D5'] }, { deviceId: 'D2' }, { deviceId: 'D1', sensorList: ['D6'] }], startTime: 0, endTime: 1 }),
+    error => error instanceof ValidationError && /D1/.test(error.message) && !/D2/.test(error.message)
+  );
+  assert.equal(calls.length, 0);
+});
+
+test('dataQueryMany fills gaps like dataQuery', async () => {
+  const byDevice = await assertMatchesDataQuery({ fill: 'ffill' });
+  assert.deepEqual(byDevice.D1.map(row => [row.D5, row.D6]), [['1', null], ['1', '10'], ['3', '10'], ['3', '30']]);
+
+  const limited = await assertMatchesDataQuery({ fill: 'ffill', tolerance: MINUTE });
+  assert.deepEqual(limited.D2.map(row => row.D6), ['5', null, null]);
+});
+
+test('dataQueryMany converts units like dataQuery', async () => {
+  const metadata = { unit: { D5: ['kWh'], D6: ['kW'] }, unitSelected: { D5: 'Wh', D6: 'kW' } };
+  const byDevice = await assertMatchesDataQuery({ units: 'selected', cal: false }, { metadata });
+  assert.deepEqual(byDevice.D1[0], { time: START, D5: 1000, units: { D5: 'Wh', D6: 'kW' } });
+});
+
+test('dataQueryMany passes parallel and batchConcurrency to each device query', async () => {
+  const batchRequests = parallel => {
+    const { dataAccess, calls } = manyDataAccess();
+    return dataAccess.dataQueryMany({ devices: [{ deviceId: 'D1' }, { deviceId: 'D2' }], startTime: START, endTime: START + 3 * MINUTE, parallel })
+      .then(() => calls.filter(({ url }) => url.includes('getCursorOfBatches')).length);
+  };
+  assert.equal(await batchRequests(true), 2);
+  assert.equal(await batchRequests(false), 0);
+
+  // Three batches that tile the range; count the pages in flight at once
+  const batches = [0, 1, 2].map(minute => ({ start: START + minute * MINUTE, end: START + (minute + 1) * MINUTE }));
+  let inFlight = 0;
+  let peak = 0;
+  const { dataAccess } = fakeDataAccess(async ({ url }) => {
+    if (url.includes('getCursorOfBatches')) return { data: batches };
+    peak = Math.max(peak, ++inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+    return { data: [], cursor: { start: null, end: null } };
+  }, { throwOnError: true });
+  await dataAccess.dataQueryMany({ devices: [{ deviceId: 'D1' }], startTime: START, endTime: START + 3 * MINUTE, batchConcurrency: 1 });
+  assert.equal(peak, 1);
+});
+
+test('mapWithConcurrency keeps input order', async () => {
+  const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+    await new Promise(resolve => setTimeout(resolve, delay));
+    return index;
+  });
+  assert.deepEqual(results, [0, 1, 2]);
+});
+
+test('mapWithConcurrency starts no new items after a rejection', async () => {
+  const started = [];
+  await assert.rejects(
+    mapWithConcurrency([0, 1, 2, 3, 4, 5], 2, async (item) => {
+      started.push(item);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if (item === 1) throw new Error('boom');
+    }),
+    /boom/
+  );
+  await new Promise(resolve => setTimeout(resolve, 20));
+  assert.deepEqual(started, [0, 1, 2]);
+});
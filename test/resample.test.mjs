@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { fakeDataAccess } from './helpers.mjs';
+
+const HOUR = 3600 * 1000;
+// Hourly readings from 2024-03-30 to 2024-04-01 UTC; Berlin moves from +01:00 to +02:00 at 2024-03-31T01:00Z
+const START = Date.UTC(2024, 2, 30);
+const TIMES = Array.from({ length: 72 }, (_, i) => START + i * HOUR);
+
+function resampled(interval) {
+  const { dataAccess } = fakeDataAccess(() => ({
+    data: TIMES.map(time => ({ time: new Date(time).toISOString(), sensor: 'D5', value: '1' })),
+    cursor: { start: null, end: null },
+  }), { tz: 'Europe/Berlin', throwOnError: true });
+  return dataAccess.dataQuery({
+    deviceId: 'D1', startTime: START, endTime: TIMES[TIMES.length - 1], cal: false, unix: true, format: 'long',
+    parallel: false, interval, aggregate: 'count',
+  });
+}
+
+test('daily buckets start at local midnight on both sides of a DST change', async () => {
+  const rows = await resampled('1d');
+  assert.deepEqual(rows.map(({ time }) => new Date(time).toISOString()), [
+    '2024-03-29T23:00:00.000Z',
+    '2024-03-30T23:00:00.000Z',
+    '2024-03-31T22:00:00.000Z',
+    '2024-04-01T22:00:00.000Z',
+  ]);
+  // The day the clocks go forward has 23 hours
+  assert.deepEqual(rows.map(({ value }) => value), [23, 23, 24, 2]);
+});
+
+test('hourly buckets stay one hour apart across the skipped hour', async () => {
+  const rows = await resampled('1h');
+  assert.equal(rows.length, TIMES.length);
+  assert.deepEqual(rows.map(({ time }) => time), TIMES);
+});
@@ -0,0 +1,54 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventsHandler, IoSenseClient, RetryPolicy } from '../dist/index.js';
+import { fakeTransport, httpError } from './helpers.mjs';
+
+const retryAfter = value => ({ response: { status: 429, headers: { 'retry-after': value } } });
+
+test('Retry-After is followed up to maxRetryAfterMs', () => {
+  const policy = new RetryPolicy({ maxDelayMs: 1000 });
+  assert.equal(policy.delayMs(1, retryAfter('5')), 5000);
+  assert.equal(policy.delayMs(1, retryAfter('86400')), 60_000);
+  assert.equal(policy.delayMs(1, retryAfter(new Date(Date.now() + 3600_000).toUTCString())), 60_000);
+  assert.equal(new RetryPolicy({ maxRetryAfterMs: 2000 }).delayMs(1, retryAfter('30')), 2000);
+});
+
+test('backoff doubles up to maxDelayMs without a Retry-After', () => {
+  const policy = new RetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: 0 });
+  assert.deepEqual([1, 2, 3, 4].map(retry => policy.delayMs(retry, retryAfter(undefined))), [100, 200, 300, 300]);
+  assert.equal(new RetryPolicy({ baseDelayMs: 100, jitter: 0, respectRetryAfter: false }).delayMs(1, retryAfter('30')), 100);
+});
+
+// Answers every request with a 503 until `failures` requests have failed
+function flakyTransport(failures) {
+  return fakeTransport((config, call) => {
+    if (call <= failures) throw httpError(config, 503);
+    return { data: [] };
+  });
+}
+
+test('events requests are sent once unless a policy is configured', async () => {
+  const once = flakyTransport(1);
+  const events = new EventsHandler({ userId: 'u', dataUrl: 'x', transport: once.transport, logger: 'silent' });
+  assert.deepEqual(await events.getEventCategories(), []);
+  assert.equal(once.calls.length, 1);
+
+  const retried = flakyTransport(1);
+  const configured = new EventsHandler({ userId: 'u', dataUrl: 'x', transport: retried.transport, retry: { baseDelayMs: 1 }, logger: 'silent' });
+  assert.deepEqual(await configured.getEventCategories(), []);
+  assert.equal(retried.calls.length, 2);
+});
+
+test('a per-call policy retries a single events request', async () => {
+  const { transport, calls } = flakyTransport(2);
+  const events = new EventsHandler({ userId: 'u', dataUrl: 'x', transport, logger: 'silent' });
+  assert.deepEqual(await events.getEventCategories({ retry: { maxAttempts: 3, baseDelayMs: 1 } }), []);
+  assert.equal(calls.length, 3);
+});
+
+test('the client shares a configured policy with events', async () => {
+  const { transport, calls } = flakyTransport(1);
+  const client = new IoSenseClient({ userId: 'u', dataUrl: 'x', transport, retry: { baseDelayMs: 1 }, logger: 'silent' });
+  assert.deepEqual(await client.events.getEventCategories(), []);
+  assert.equal(calls.length, 2);
+});
@@ -0,0 +1,121 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { P2Quantile, RunningStats, ValidationError, median, percentileOf } from '../dist/index.js';
+
+const close = (actual, expected, tolerance = 1e-9) => assert.ok(Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected)), `${actual} != ${expected}`);
+
+// Deterministic pseudo-random values (mulberry32) so failures are reproducible
+function random(seed) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Linear interpolation between closest ranks, as in pandas
+function exactPercentile(values, percentile) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (sorted.length - 1) * percentile / 100;
+  const lower = Math.floor(rank);
+  return sorted[lower] + (sorted[Math.ceil(rank)] - sorted[lower]) * (rank - lower);
+}
+
+function twoPass(values) {
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / (values.length - 1);
+  return { mean, std: Math.sqrt(variance) };
+}
+
+test('Welford mean and std match a two-pass computation', () => {
+  const next = random(1);
+  // A large offset makes the naive sum-of-squares formula lose all precision
+  const series = [
+    [2, 4, 4, 4, 5, 5, 7, 9],
+    Array.from({ length: 1000 }, () => next() * 100 - 50),
+    Array.from({ length: 1000 }, () => 1e9 + next()),
+  ];
+  for (const values of series) {
+    const stats = new RunningStats();
+    values.forEach((value, i) => stats.push(value, i));
+    const reference = twoPass(values);
+    assert.equal(stats.count, values.length);
+    close(stats.mean, reference.mean, 1e-12);
+    close(stats.std, reference.std, 1e-6);
+    assert.equal(stats.min, Math.min(...values));
+    assert.equal(stats.max, Math.max(...values));
+  }
+});
+
+test('RunningStats ignores non-finite values and tracks first and last', () => {
+  const stats = new RunningStats([50]);
+  [[NaN, 1], [3, 2], [Infinity, 3], [1, 4], [2, 5]].forEach(([value, time]) => stats.push(value, time));
+  assert.equal(stats.count, 3);
+  assert.deepEqual(stats.first, { time: 2, value: 3 });
+  assert.deepEqual(stats.last, { time: 5, value: 2 });
+  assert.equal(stats.mean, 2);
+  assert.equal(stats.std, 1);
+  assert.equal(stats.percentile(50), 2);
+  assert.equal(stats.percentile(95), null);
+});
+
+test('empty and single-value stats', () => {
+  const stats = new RunningStats([50]);
+  assert.equal(stats.mean, null);
+  assert.equal(stats.std, null);
+  assert.equal(stats.percentile(50), null);
+  stats.push(7, 0);
+  assert.equal(stats.mean, 7);
+  assert.equal(stats.std, null);
+  assert.equal(stats.percentile(50), 7);
+});
+
+test('P² is exact for up to five values', () => {
+  const next = random(2);
+  for (let length = 1; length <= 5; length++) {
+    const values = Array.from({ length }, () => Math.round(next() * 100));
+    for (const percentile of [0, 10, 25, 50, 75, 90, 99, 100]) {
+      const quantile = new P2Quantile(percentile);
+      values.forEach(value => quantile.push(value));
+      close(quantile.value(), exactPercentile(values, percentile));
+    }
+  }
+});
+
+test('P² estimates stay close to the exact quantiles', () => {
+  const next = random(3);
+  const values = Array.from({ length: 5000 }, () => next() * 1000);
+  for (const percentile of [0, 5, 25, 50, 75, 95, 100]) {
+    const quantile = new P2Quantile(percentile);
+    values.forEach(value => quantile.push(value));
+    // Within 1% of the range for a uniform distribution
+    assert.ok(Math.abs(quantile.value() - exactPercentile(values, percentile)) < 10, `p${percentile}`);
+  }
+});
+
+test('P² handles sorted input and repeated values', () => {
+  const sorted = Array.from({ length: 101 }, (_, i) => i);
+  const quantile = new P2Quantile(50);
+  sorted.forEach(value => quantile.push(value));
+  assert.ok(Math.abs(quantile.value() - 50) <= 2);
+
+  const constant = new P2Quantile(90);
+  for (let i = 0; i < 50; i++) constant.push(4);
+  assert.equal(constant.value(), 4);
+});
+
+test('median', () => {
+  assert.equal(median([]), null);
+  assert.equal(median([3, 1, 2]), 2);
+  assert.equal(median([4, 1, 3, 2]), 2.5);
+});
+
+test('percentileOf', () => {
+  assert.equal(percentileOf('mean'), null);
+  assert.equal(percentileOf('p50'), 50);
+  assert.equal(percentileOf('p99.9'), 99.9);
+  assert.equal(percentileOf('p0'), 0);
+  assert.throws(() => percentileOf('p101'), ValidationError);
+  assert.throws(() => percentileOf('median'), ValidationError);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError, formatTime, formatZoned, toUnixMs, zonedOffset, zonedToUnix } from '../dist/index.js';
+
+const utc = iso => Date.parse(iso);
+
+test('times skipped when clocks go forward move forward by the gap', () => {
+  assert.equal(zonedToUnix([2024, 3, 10, 2, 30], 'America/New_York'), utc('2024-03-10T07:30:00Z'));
+  assert.equal(zonedToUnix([2024, 3, 31, 2, 30], 'Europe/Berlin'), utc('2024-03-31T01:30:00Z'));
+  assert.equal(zonedToUnix([2024, 10, 6, 2, 30], 'Australia/Sydney'), utc('2024-10-05T16:30:00Z'));
+});
+
+test('times repeated when clocks go back resolve to the earlier instant', () => {
+  assert.equal(zonedToUnix([2024, 11, 3, 1, 30], 'America/New_York'), utc('2024-11-03T05:30:00Z'));
+  assert.equal(zonedToUnix([2024, 10, 27, 2, 30], 'Europe/Berlin'), utc('2024-10-27T00:30:00Z'));
+  assert.equal(zonedToUnix([2024, 4, 7, 2, 30], 'Australia/Sydney'), utc('2024-04-06T15:30:00Z'));
+});
+
+test('times next to a transition keep their own offset', () => {
+  assert.equal(zonedToUnix([2024, 3, 10, 1, 59, 59], 'America/New_York'), utc('2024-03-10T06:59:59Z'));
+  assert.equal(zonedToUnix([2024, 3, 10, 3, 0], 'America/New_York'), utc('2024-03-10T07:00:00Z'));
+  assert.equal(zonedToUnix([2024, 11, 3, 0, 59], 'America/New_York'), utc('2024-11-03T04:59:00Z'));
+  assert.equal(zonedToUnix([2024, 11, 3, 2, 0], 'America/New_York'), utc('2024-11-03T07:00:00Z'));
+});
+
+test('zonedToUnix round-trips every hour across a DST year', () => {
+  for (const timezone of ['America/New_York', 'Europe/Berlin', 'Australia/Sydney', 'Asia/Kolkata']) {
+    for (let ms = utc('2024-01-01T00:00:00Z'); ms < utc('2025-01-01T00:00:00Z'); ms += 3600 * 1000) {
+      const local = new Date(ms + zonedOffset(ms, timezone));
+      const parts = [local.getUTCFullYear(), local.getUTCMonth() + 1, local.getUTCDate(), local.getUTCHours(), local.getUTCMinutes()];
+      const back = zonedToUnix(parts, timezone);
+      // Repeated hours resolve to the earlier instant, one hour before the second occurrence
+      assert.ok(back === ms || back === ms - 3600 * 1000, `${timezone} ${new Date(ms).toISOString()}`);
+    }
+  }
+});
+
+test('toUnixMs reads strings without an offset in the timezone', () => {
+  assert.equal(toUnixMs('2024-03-10 02:30:00', 'America/New_York'), utc('2024-03-10T07:30:00Z'));
+  assert.equal(toUnixMs('2024-01-01', 'Asia/Kolkata'), utc('2023-12-31T18:30:00Z'));
+  assert.equal(toUnixMs('2024-01-01T00:00:00.250', 'UTC'), utc('2024-01-01T00:00:00.250Z'));
+  assert.equal(toUnixMs('2024-01-01T05:30:00+05:30', 'America/New_York'), utc('2024-01-01T00:00:00Z'));
+  assert.equal(toUnixMs('2024-01-01T00:00:00Z', 'Asia/Kolkata'), utc('2024-01-01T00:00:00Z'));
+});
+
+test('toUnixMs takes small numbers as seconds and large ones as milliseconds', () => {
+  assert.equal(toUnixMs(1704067200), 1704067200000);
+  assert.equal(toUnixMs('1704067200'), 1704067200000);
+  assert.equal(toUnixMs(1704067200000), 1704067200000);
+  assert.equal(toUnixMs(new Date(1704067200000)), 1704067200000);
+});
+
+test('toUnixMs rejects invalid input', () => {
+  assert.throws(() => toUnixMs('2024-02-30'), ValidationError);
+  assert.throws(() => toUnixMs('2024-01-01 25:00'), ValidationError);
+  assert.throws(() => toUnixMs('yesterday'), ValidationError);
+  assert.throws(() => toUnixMs(-1), ValidationError);
+  assert.throws(() => toUnixMs('2024-01-01', 'Mars/Olympus'), ValidationError);
+});
+
+test('formatZoned and formatTime render wall-clock time with the offset', () => {
+  const ms = utc('2024-07-01T12:00:00.045Z');
+  assert.equal(formatZoned(ms, 'Asia/Kolkata'), '2024-07-01 17:30:00');
+  assert.equal(formatZoned(ms, 'America/New_York', 'DD/MM/YYYY [at] HH:mm Z'), '01/07/2024 at 08:00 -04:00');
+  assert.equal(formatTime(ms, 'local', 'Europe/Berlin'), '2024-07-01T14:00:00.045+02:00');
+  assert.equal(formatTime(ms, 'iso', 'Europe/Berlin'), '2024-07-01T12:00:00.045Z');
+  assert.deepEqual(formatTime(ms, 'date'), new Date(ms));
+  assert.equal(toUnixMs(formatTime(ms, 'local', 'Australia/Sydney')), ms);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HttpTransport, DataAccess } from '../dist/index.js';
+import { fakeTransport, httpError } from './helpers.mjs';
+
+test('requests go through the injected function with the transport defaults applied', async () => {
+  const configs = [];
+  const transport = new HttpTransport({
+    request: async (config) => {
+      configs.push(config);
+      return { status: 200, headers: {}, data: { ok: true } };
+    },
+    headers: { 'x-client': 'sdk', userID: 'default' },
+    timeout: 5000,
+  });
+
+  const response = await transport.post('https://example.test/items', { id: 1 }, { headers: { userID: 'u1' } });
+  assert.deepEqual(response.data, { ok: true });
+  assert.deepEqual(configs, [{
+    timeout: 5000,
+    method: 'post',
+    url: 'https://example.test/items',
+    data: { id: 1 },
+    headers: { 'x-client': 'sdk', userID: 'u1' },
+  }]);
+
+  await transport.get('https://example.test/items', { timeout: 10 });
+  assert.equal(configs[1].timeout, 10);
+  assert.equal(configs[1].method, 'get');
+});
+
+test('retrying views share the injected function and the base transport never retries', async () => {
+  // Every URL fails the first time it is requested
+  const failed = new Set();
+  const { transport, calls } = fakeTransport((config) => {
+    if (!failed.has(config.url)) {
+      failed.add(config.url);
+      throw httpError(config, 503);
+    }
+    return 'done';
+  });
+
+  await assert.rejects(transport.get('https://example.test/a'), error => error.response?.status === 503);
+  assert.equal(calls.length, 1);
+
+  const retrying = transport.withRetry({ maxAttempts: 2, baseDelayMs: 1 });
+  assert.equal((await retrying.get('https://example.test/b')).data, 'done');
+  assert.equal(calls.length, 3);
+
+  // A per-request policy retries even on the base transport
+  assert.equal((await transport.get('https://example.test/c', { retry: { maxAttempts: 2, baseDelayMs: 1 } })).data, 'done');
+  assert.equal(calls.length, 5);
+});
+
+test('handlers built from transport options use the injected function', async () => {
+  const urls = [];
+  const dataAccess = new DataAccess({
+    userId: 'u',
+    dataUrl: 'data.example.test',
+    dsUrl: 'ds.example.test',
+    logger: 'silent',
+    transport: {
+      headers: { 'x-client': 'sdk' },
+      request: async (config) => {
+        urls.push([config.url, config.headers['x-client']]);
+        return { status: 200, headers: {}, data: { data: [{ devID: 'D1' }] } };
+      },
+    },
+  });
+  assert.deepEqual(await dataAccess.getDeviceDetails(), [{ devID: 'D1' }]);
+  assert.equal(urls.length, 1);
+  assert.match(urls[0][0], /^https:\/\/data\.example\.test\//);
+  assert.equal(urls[0][1], 'sdk');
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ApiError, AuthError, RetryExhaustedError, ValidationError } from '../dist/index.js';
+import { fakeDataAccess, httpError, networkError } from './helpers.mjs';
+
+function triggerDataAccess(failures, retry = {}) {
+  return fakeDataAccess((config, call) => {
+    const failure = failures[call - 1];
+    if (failure?.status) throw httpError(config, failure.status);
+    if (failure?.code) throw networkError(config, failure.code);
+    return { success: true };
+  }, { retry: { baseDelayMs: 1, jitter: 0, ...retry } });
+}
+
+test('the trigger is posted by title with the payload', async () => {
+  const { dataAccess, calls } = triggerDataAccess([]);
+  assert.deepEqual(await dataAccess.fireTrigger({ title: 'Recalculate', payload: { startTime: 1 } }), { success: true });
+  assert.equal(calls.length, 1);
+  assert.match(calls[0].url, /user-trigger-with-title/);
+  assert.deepEqual(calls[0].data, { startTime: 1, title: 'Recalculate' });
+});
+
+test('transient failures are retried like every other request', async () => {
+  const { dataAccess, calls } = triggerDataAccess([{ status: 503 }, { code: 'ETIMEDOUT' }, { status: 429 }]);
+  assert.deepEqual(await dataAccess.fireTrigger({ title: 'Recalculate' }), { success: true });
+  assert.equal(calls.length, 4);
+});
+
+test('request failures are wrapped in typed errors', async () => {
+  const rejected = triggerDataAccess([{ status: 400 }]);
+  await assert.rejects(rejected.dataAccess.fireTrigger({ title: 'Recalculate' }), error =>
+    error instanceof ApiError && error.status === 400 && /user-trigger-with-title/.test(error.url));
+  assert.equal(rejected.calls.length, 1);
+
+  const { dataAccess } = triggerDataAccess([{ status: 403 }]);
+  await assert.rejects(dataAccess.fireTrigger({ title: 'Recalculate' }), AuthError);
+
+  const exhausted = triggerDataAccess([{ status: 503 }, { status: 503 }], { maxAttempts: 2 });
+  await assert.rejects(exhausted.dataAccess.fireTrigger({ title: 'Recalculate' }), RetryExhaustedError);
+});
+
+test('a trigger without a title is rejected before any request', async () => {
+  const { dataAccess, calls } = triggerDataAccess([]);
+  await assert.rejects(dataAccess.fireTrigger({ title: '' }), ValidationError);
+  assert.equal(calls.length, 0);
+});
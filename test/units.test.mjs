@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { convertUnit, getUnitConverter, resolveUnit, UNITS } from '../dist/index.js';
+
+const close = (actual, expected) => assert.ok(Math.abs(actual - expected) <= Math.abs(expected) * 1e-9, `${actual} != ${expected}`);
+
+test('milli and mega prefixes are told apart by case', () => {
+  assert.equal(convertUnit(1, 'mW', 'W'), 0.001);
+  assert.equal(convertUnit(1, 'MW', 'W'), 1e6);
+  assert.equal(convertUnit(1, 'mPa', 'Pa'), 0.001);
+  assert.equal(convertUnit(1, 'MPa', 'Pa'), 1e6);
+  assert.equal(convertUnit(1, 'mWh', 'Wh'), 0.001);
+  assert.equal(convertUnit(1, 'MWh', 'kWh'), 1000);
+  assert.equal(resolveUnit('mw'), 'mW');
+  assert.equal(resolveUnit('MW'), 'MW');
+  assert.equal(resolveUnit('Mw'), 'MW');
+});
+
+test('case-insensitive matching stays unambiguous', () => {
+  assert.equal(resolveUnit('kwh'), 'kWh');
+  assert.equal(resolveUnit('KWH'), 'kWh');
+  assert.equal(resolveUnit('MMHG'), null);
+  assert.equal(resolveUnit('mmbtu'), 'MMBTU');
+  assert.equal(resolveUnit('mbar'), 'mbar');
+});
+
+test('aliases from device metadata resolve', () => {
+  assert.equal(resolveUnit('deg C'), '°C');
+  assert.equal(resolveUnit('m3/hr'), 'm³/h');
+  assert.equal(resolveUnit('kg/cm2'), 'kg/cm²');
+  assert.equal(resolveUnit('furlongs'), null);
+});
+
+test('apparent power and energy do not convert to real power and energy', () => {
+  assert.equal(convertUnit(1, 'kVA', 'VA'), 1000);
+  assert.equal(convertUnit(1, 'MVAh', 'kVAh'), 1000);
+  assert.equal(getUnitConverter('kVA', 'kW'), null);
+  assert.equal(getUnitConverter('kVAh', 'kWh'), null);
+  assert.throws(() => convertUnit(1, 'kVA', 'kW'), /Cannot convert/);
+});
+
+test('temperatures convert with offsets', () => {
+  assert.equal(convertUnit(20, '°C', '°F'), 68);
+  assert.equal(convertUnit(0, '°C', 'K'), 273.15);
+  assert.equal(convertUnit(212, '°F', '°C'), 100);
+});
+
+test('every unit round-trips through each unit of its category', () => {
+  const symbols = Object.keys(UNITS);
+  for (const from of symbols) {
+    for (const to of symbols.filter(symbol => UNITS[symbol].category === UNITS[from].category)) {
+      close(convertUnit(convertUnit(123.456, from, to), to, from), 123.456);
+    }
+  }
+});
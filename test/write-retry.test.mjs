@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventsHandler, MachineTimeline } from '../dist/index.js';
+import { fakeTransport, httpError, networkError } from './helpers.mjs';
+
+const retry = { maxAttempts: 5, baseDelayMs: 1, jitter: 0 };
+
+function failingTransport(failures, body) {
+  return fakeTransport((config, call) => {
+    const failure = failures[call - 1];
+    if (failure?.status) throw httpError(config, failure.status);
+    if (failure?.code) throw networkError(config, failure.code);
+    return body;
+  });
+}
+
+function publish(failures, callRetry) {
+  const { transport, calls } = failingTransport(failures, { data: { _id: 'E1' } });
+  const events = new EventsHandler({ userId: 'u', dataUrl: 'x', transport, retry, logger: 'silent', throwOnError: true });
+  return { result: events.publishEvent({ message: 'Boiler trip', eventTagsList: ['T1'], retry: callRetry }), calls };
+}
+
+test('an event that fails with a 5xx or a timeout is published once', async () => {
+  for (const failure of [{ status: 503 }, { code: 'ETIMEDOUT' }]) {
+    const { result, calls } = publish([failure]);
+    await assert.rejects(result);
+    assert.equal(calls.length, 1);
+  }
+});
+
+test('an event that never reached the server is retried', async () => {
+  const { result, calls } = publish([{ code: 'ECONNREFUSED' }, { status: 429 }]);
+  assert.deepEqual(await result, { _id: 'E1' });
+  assert.equal(calls.length, 3);
+});
+
+test('callers can opt in to retrying 5xx responses', async () => {
+  const { result, calls } = publish([{ status: 503 }], { retryableStatuses: [429, 503] });
+  assert.deepEqual(await result, { _id: 'E1' });
+  assert.equal(calls.length, 2);
+});
+
+test('rows that fail with a 5xx are inserted once', async () => {
+  const { transport, calls } = failingTransport([{ status: 502 }], { success: true });
+  const timeline = new MachineTimeline({ userId: 'u', dataUrl: 'x', transport, retry, logger: 'silent' });
+  assert.deepEqual(await timeline.createMongoData({ data: { devID: 'D1', rows: [] } }), { success: false });
+  assert.equal(calls.length, 1);
+});